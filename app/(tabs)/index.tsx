@@ -1,42 +1,65 @@
 import { Ionicons } from '@expo/vector-icons';
 import { useFocusEffect } from '@react-navigation/native';
+import { router } from 'expo-router';
 import React, { useCallback, useState } from 'react';
 import {
   Alert,
   FlatList,
   RefreshControl,
+  ScrollView,
   StyleSheet,
   TouchableOpacity,
   View
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 
+import { NetworkStatusIndicator } from '@/components/NetworkStatusIndicator';
+import { ProjectFormModal } from '@/components/ProjectFormModal';
 import { TaskCard } from '@/components/TaskCard';
 import { TaskFormModal } from '@/components/TaskFormModal';
 import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
 import { useAuth } from '@/contexts/AuthContext';
-import { CreateTaskData, Task, taskService, UpdateTaskData } from '@/services/taskService';
+import { useLocale } from '@/contexts/LocaleContext';
+import { useLogoutPrompt } from '@/hooks/useLogoutPrompt';
+import { useOptimisticTaskActions } from '@/hooks/useOptimisticTaskActions';
+import { useProjects } from '@/hooks/useProjects';
+import { useAllTags, useTasks } from '@/hooks/useTasks';
+import { networkService } from '@/services/networkService';
+import { CreateProjectData, Project, projectService } from '@/services/projectService';
+import { CreateTaskData, Task, TASK_PRIORITIES, taskService, UpdateTaskData } from '@/services/taskService';
+import { taskStore } from '@/services/taskStore';
+
+// 'all' shows every task, 'inbox' the ones without a project
+type ProjectFilter = 'all' | 'inbox' | number;
 
 export default function TasksScreen() {
-  const [tasks, setTasks] = useState<Task[]>([]);
+  const tasks = useTasks();
+  const projects = useProjects();
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [modalVisible, setModalVisible] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
   const [filter, setFilter] = useState<'all' | 'upcoming' | 'past'>('all');
-  const { user, logout } = useAuth();
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [projectFilter, setProjectFilter] = useState<ProjectFilter>('all');
+  const [projectModalVisible, setProjectModalVisible] = useState(false);
+  const [editingProject, setEditingProject] = useState<Project | null>(null);
+  const allTags = useAllTags();
+  const { user } = useAuth();
+  const { t, tp } = useLocale();
+  const handleLogout = useLogoutPrompt();
+  const taskActions = useOptimisticTaskActions();
 
   const loadTasks = async (showRefreshing = false) => {
     try {
       if (showRefreshing) setRefreshing(true);
       else setLoading(true);
       
-      const fetchedTasks = await taskService.fetchTasks();
-      setTasks(fetchedTasks);
+      await Promise.all([taskService.fetchTasks(), projectService.fetchProjects()]);
     } catch (error) {
       console.error('Error loading tasks:', error);
-      Alert.alert('Error', 'Failed to load tasks. Please try again.');
+      Alert.alert(t('common.error'), t('tasks.loadFailed'));
     } finally {
       setLoading(false);
       setRefreshing(false);
@@ -59,61 +82,65 @@ export default function TasksScreen() {
     setModalVisible(true);
   };
 
+  // Optimistic actions settle in the background, so the form closes right away
   const handleSubmitTask = async (data: CreateTaskData | UpdateTaskData) => {
-    try {
-      if (editingTask) {
-        await taskService.updateTask(editingTask.id, data);
-      } else {
-        await taskService.createTask(data as CreateTaskData);
-      }
-      await loadTasks();
-    } catch (error) {
-      console.error('Error saving task:', error);
-      throw error;
+    if (editingTask) {
+      taskActions.updateTask(editingTask.id, data);
+    } else {
+      taskActions.createTask(data as CreateTaskData);
     }
   };
 
-  const handleDeleteTask = async (taskId: number) => {
-    try {
-      setLoading(true);
-      await taskService.deleteTask(taskId);
-      await loadTasks();
-    } catch (error) {
-      Alert.alert('Error', 'Failed to delete task. Please try again.');
-    } finally {
-      setLoading(false);
-    }
+  const handleDeleteTask = (taskId: number) => {
+    taskActions.deleteTask(taskId);
   };
 
-  const handleToggleComplete = async (taskId: number, completed: boolean) => {
-    try {
-      await taskService.updateTask(taskId, { completed });
-      await loadTasks();
-    } catch (error) {
-      Alert.alert('Error', 'Failed to update task. Please try again.');
+  const handleToggleComplete = (taskId: number, completed: boolean) => {
+    taskActions.toggleComplete(taskId, completed);
+  };
+
+  const handleAddProject = () => {
+    setEditingProject(null);
+    setProjectModalVisible(true);
+  };
+
+  const handleEditProject = (project: Project) => {
+    setEditingProject(project);
+    setProjectModalVisible(true);
+  };
+
+  const handleSubmitProject = async (data: CreateProjectData) => {
+    if (editingProject) {
+      await projectService.updateProject(editingProject.id, data);
+    } else {
+      const project = await projectService.createProject(data);
+      setProjectFilter(project.id);
     }
   };
 
-  const handleLogout = () => {
-    Alert.alert(
-      'Logout',
-      'Are you sure you want to logout?',
-      [
-        { text: 'Cancel', style: 'cancel' },
-        { text: 'Logout', onPress: logout, style: 'destructive' },
-      ]
-    );
+  const handleDeleteProject = async (project: Project) => {
+    await projectService.deleteProject(project.id);
+    if (projectFilter === project.id) setProjectFilter('all');
   };
 
   const handleSync = async () => {
     try {
       setRefreshing(true);
-      await taskService.syncOfflineChanges();
-      await loadTasks();
-      Alert.alert('Success', 'All changes have been synchronized.');
+      const result = await networkService.syncNow();
+      if (result.stopped === 'offline') {
+        Alert.alert(t('network.offline'), t('tasks.syncOffline'));
+      } else if (result.stopped === 'signedOut') {
+        Alert.alert(t('common.error'), t('tasks.syncFailed'));
+      } else if (result.failed > 0) {
+        Alert.alert(t('common.error'), tp('tasks.syncFailedChanges', result.failed));
+      } else if (result.remaining > 0) {
+        Alert.alert(t('tasks.syncPendingTitle'), tp('tasks.syncPending', result.remaining));
+      } else {
+        Alert.alert(t('common.success'), t('tasks.syncSucceeded'));
+      }
     } catch (error) {
       console.error('Error syncing:', error);
-      Alert.alert('Error', 'Failed to sync changes. Please try again.');
+      Alert.alert(t('common.error'), t('tasks.syncFailed'));
     } finally {
       setRefreshing(false);
     }
@@ -136,16 +163,47 @@ export default function TasksScreen() {
     return 'past';
   };
 
-  const filteredTasks = tasks.filter(task => {
+  // Highest priority first, then earliest due date; tasks without a date go last
+  const compareTasks = (a: Task, b: Task) => {
+    const priorityDiff =
+      TASK_PRIORITIES.indexOf(b.priority || 'none') - TASK_PRIORITIES.indexOf(a.priority || 'none');
+    if (priorityDiff !== 0) return priorityDiff;
+
+    const aTime = a.dueDate ? a.dueDate.getTime() : a.due_date ? new Date(a.due_date).getTime() : Infinity;
+    const bTime = b.dueDate ? b.dueDate.getTime() : b.due_date ? new Date(b.due_date).getTime() : Infinity;
+    if (aTime !== bTime) return aTime < bTime ? -1 : 1;
+    return 0;
+  };
+
+  // A tag that no task uses any more stops filtering
+  const activeTag = tagFilter && allTags.includes(tagFilter) ? tagFilter : null;
+
+  // Likewise a deleted project falls back to all tasks
+  const activeProject: ProjectFilter =
+    typeof projectFilter === 'number' && !projects.some(p => p.id === projectFilter) ? 'all' : projectFilter;
+
+  const isInProject = (task: Task, project: ProjectFilter) => {
+    if (project === 'all') return true;
+    if (project === 'inbox') return task.project_id == null;
+    return task.project_id === project;
+  };
+
+  const countActive = (project: ProjectFilter) =>
+    tasks.filter(task => !task.completed && isInProject(task, project)).length;
+
+  const projectTasks = tasks.filter(task => isInProject(task, activeProject));
+
+  const filteredTasks = projectTasks.filter(task => {
     // Don't show completed tasks in any filter
     if (task.completed) return false;
+    if (activeTag && !task.tags?.some(tag => tag.toLowerCase() === activeTag.toLowerCase())) return false;
     
     if (filter === 'all') return true;
     return getTaskStatus(task) === filter;
-  });
+  }).sort(compareTasks);
 
-  const upcomingCount = tasks.filter(t => !t.completed && getTaskStatus(t) === 'upcoming').length;
-  const pastCount = tasks.filter(t => !t.completed && getTaskStatus(t) === 'past').length;
+  const upcomingCount = projectTasks.filter(t => !t.completed && getTaskStatus(t) === 'upcoming').length;
+  const pastCount = projectTasks.filter(t => !t.completed && getTaskStatus(t) === 'past').length;
   const totalActiveCount = upcomingCount + pastCount;
   const hasOfflineChanges = tasks.some(t => t.needsSync || t.isLocal);
 
@@ -155,30 +213,83 @@ export default function TasksScreen() {
       onEdit={handleEditTask}
       onDelete={handleDeleteTask}
       onToggleComplete={handleToggleComplete}
+      onPress={task => router.push(`/task/${task.id}`)}
+      isPending={taskStore.isPending(item.id)}
+      error={taskActions.errors[item.id]}
+      onDismissError={() => taskActions.dismissError(item.id)}
     />
   );
 
   const renderHeader = () => (
     <ThemedView style={styles.header}>
       <View style={styles.userSection}>
-        <ThemedText style={styles.greeting}>Hello, {user?.name}!</ThemedText>
-        <TouchableOpacity onPress={handleLogout} style={styles.logoutButton}>
-          <Ionicons name="log-out-outline" size={20} color="#ef4444" />
-        </TouchableOpacity>
+        <ThemedText style={styles.greeting}>{t('tasks.greeting', { name: user?.name ?? '' })}</ThemedText>
+        <View style={styles.headerActions}>
+          <NetworkStatusIndicator />
+          <TouchableOpacity onPress={handleLogout} style={styles.logoutButton}>
+            <Ionicons name="log-out-outline" size={20} color="#ef4444" />
+          </TouchableOpacity>
+        </View>
       </View>
-      
+
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.projectSwitcher}
+        contentContainerStyle={styles.tagFilterContent}
+      >
+        {(['all', 'inbox'] as const).map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.projectChip, activeProject === option && styles.projectChipActive]}
+            onPress={() => setProjectFilter(option)}
+          >
+            <Ionicons
+              name={option === 'all' ? 'albums-outline' : 'file-tray-outline'}
+              size={16}
+              color={activeProject === option ? '#ffffff' : '#6b7280'}
+            />
+            <ThemedText style={[styles.projectChipText, activeProject === option && styles.tagChipTextActive]}>
+              {t(`projects.${option}`)} {countActive(option)}
+            </ThemedText>
+          </TouchableOpacity>
+        ))}
+        {projects.map(project => {
+          const selected = activeProject === project.id;
+          return (
+            <TouchableOpacity
+              key={project.id}
+              style={[styles.projectChip, selected && { backgroundColor: project.color, borderColor: project.color }]}
+              onPress={() => setProjectFilter(project.id)}
+              onLongPress={() => handleEditProject(project)}
+            >
+              <Ionicons name={project.icon} size={16} color={selected ? '#ffffff' : project.color} />
+              <ThemedText style={[styles.projectChipText, selected && styles.tagChipTextActive]}>
+                {project.name} {countActive(project.id)}
+              </ThemedText>
+              {project.needsSync && (
+                <Ionicons name="sync-outline" size={12} color={selected ? '#ffffff' : '#f59e0b'} style={styles.projectSyncIcon} />
+              )}
+            </TouchableOpacity>
+          );
+        })}
+        <TouchableOpacity style={styles.projectChip} onPress={handleAddProject}>
+          <Ionicons name="add" size={16} color="#3b82f6" />
+        </TouchableOpacity>
+      </ScrollView>
+
       <View style={styles.statsContainer}>
         <View style={styles.statItem}>
           <ThemedText style={styles.statNumber}>{upcomingCount}</ThemedText>
-          <ThemedText style={styles.statLabel}>Upcoming</ThemedText>
+          <ThemedText style={styles.statLabel}>{t('tasks.stats.upcoming')}</ThemedText>
         </View>
         <View style={styles.statItem}>
           <ThemedText style={styles.statNumber}>{pastCount}</ThemedText>
-          <ThemedText style={styles.statLabel}>Past</ThemedText>
+          <ThemedText style={styles.statLabel}>{t('tasks.stats.past')}</ThemedText>
         </View>
         <View style={styles.statItem}>
           <ThemedText style={styles.statNumber}>{totalActiveCount}</ThemedText>
-          <ThemedText style={styles.statLabel}>Total</ThemedText>
+          <ThemedText style={styles.statLabel}>{t('tasks.stats.total')}</ThemedText>
         </View>
       </View>
 
@@ -196,17 +307,46 @@ export default function TasksScreen() {
               styles.filterButtonText,
               filter === filterType && styles.filterButtonTextActive
             ]}>
-              {filterType.charAt(0).toUpperCase() + filterType.slice(1)}
+              {t(`tasks.filter.${filterType}`)}
             </ThemedText>
           </TouchableOpacity>
         ))}
       </View>
 
+      {allTags.length > 0 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={styles.tagFilter}
+          contentContainerStyle={styles.tagFilterContent}
+        >
+          <TouchableOpacity
+            style={[styles.tagChip, !activeTag && styles.tagChipActive]}
+            onPress={() => setTagFilter(null)}
+          >
+            <ThemedText style={[styles.tagChipText, !activeTag && styles.tagChipTextActive]}>
+              {t('tasks.filter.clearTag')}
+            </ThemedText>
+          </TouchableOpacity>
+          {allTags.map(tag => (
+            <TouchableOpacity
+              key={tag}
+              style={[styles.tagChip, activeTag === tag && styles.tagChipActive]}
+              onPress={() => setTagFilter(activeTag === tag ? null : tag)}
+            >
+              <ThemedText style={[styles.tagChipText, activeTag === tag && styles.tagChipTextActive]}>
+                #{tag}
+              </ThemedText>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+
       {hasOfflineChanges && (
         <TouchableOpacity style={styles.syncBanner} onPress={handleSync}>
           <Ionicons name="sync-outline" size={16} color="#f59e0b" />
           <ThemedText style={styles.syncBannerText}>
-            You have offline changes. Tap to sync.
+            {t('tasks.offlineBanner')}
           </ThemedText>
         </TouchableOpacity>
       )}
@@ -217,15 +357,10 @@ export default function TasksScreen() {
     <ThemedView style={styles.emptyContainer}>
       <Ionicons name="clipboard-outline" size={64} color="#9ca3af" />
       <ThemedText style={styles.emptyTitle}>
-        {filter === 'all' ? 'No tasks yet' : `No ${filter} tasks`}
+        {t(`tasks.empty.${filter}.title`)}
       </ThemedText>
       <ThemedText style={styles.emptySubtitle}>
-        {filter === 'all' 
-          ? 'Tap the + button to create your first task'
-          : filter === 'upcoming' 
-            ? 'No upcoming tasks. You\'re all caught up!'
-            : 'No past due tasks. Great job staying on top of things!'
-        }
+        {t(`tasks.empty.${filter}.subtitle`)}
       </ThemedText>
     </ThemedView>
   );
@@ -263,6 +398,15 @@ export default function TasksScreen() {
           task={editingTask}
           onClose={() => setModalVisible(false)}
           onSubmit={handleSubmitTask}
+          defaultProjectId={typeof activeProject === 'number' ? activeProject : null}
+        />
+
+        <ProjectFormModal
+          visible={projectModalVisible}
+          project={editingProject}
+          onClose={() => setProjectModalVisible(false)}
+          onSubmit={handleSubmitProject}
+          onDelete={handleDeleteProject}
         />
       </ThemedView>
     </SafeAreaView>
@@ -298,6 +442,10 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#1f2937',
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   logoutButton: {
     padding: 8,
   },
@@ -404,4 +552,60 @@ const styles = StyleSheet.create({
   filterButtonTextActive: {
     color: '#ffffff',
   },
+  projectSwitcher: {
+    marginTop: -8,
+    marginBottom: 16,
+  },
+  projectChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    marginRight: 8,
+  },
+  projectChipActive: {
+    backgroundColor: '#3b82f6',
+    borderColor: '#3b82f6',
+  },
+  projectChipText: {
+    marginLeft: 6,
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#374151',
+  },
+  projectSyncIcon: {
+    marginLeft: 4,
+  },
+  tagFilter: {
+    marginTop: -4,
+    marginBottom: 16,
+  },
+  tagFilterContent: {
+    paddingRight: 4,
+  },
+  tagChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    marginRight: 8,
+  },
+  tagChipActive: {
+    backgroundColor: '#3b82f6',
+    borderColor: '#3b82f6',
+  },
+  tagChipText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#6b7280',
+  },
+  tagChipTextActive: {
+    color: '#ffffff',
+  },
 });
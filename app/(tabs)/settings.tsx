@@ -8,51 +8,99 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 
+import { AppLockSettings } from '@/components/AppLockSettings';
+import { FailedSyncList } from '@/components/FailedSyncList';
+import { MockBackendSettings } from '@/components/MockBackendSettings';
+import { ServerPicker } from '@/components/ServerPicker';
+import { SyncConflictList } from '@/components/SyncConflictList';
 import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
+import { LanguagePreference, useLocale } from '@/contexts/LocaleContext';
+import { useLogoutPrompt } from '@/hooks/useLogoutPrompt';
+import { getDeviceLocale, SUPPORTED_LOCALES } from '@/i18n';
 import { useAuth } from '../../contexts/AuthContext';
 
 export default function SettingsScreen() {
-  const { logout, user } = useAuth();
+  const { user, logout } = useAuth();
+  const { t, preference, setPreference } = useLocale();
+  const handleLogout = useLogoutPrompt();
 
-  const handleLogout = async () => {
-    Alert.alert(
-      'Logout',
-      'Are you sure you want to logout?',
-      [
-        { text: 'Cancel', style: 'cancel' },
-        { 
-          text: 'Logout', 
-          style: 'destructive',
-          onPress: async () => {
-            try {
+  const languageOptions: { value: LanguagePreference; label: string }[] = [
+    { value: 'system', label: t('settings.languageSystem', { language: t(`language.${getDeviceLocale()}`) }) },
+    ...SUPPORTED_LOCALES.map(locale => ({ value: locale, label: t(`language.${locale}`) })),
+  ];
+
+  // The session belongs to the old server, so switching signs out first.
+  // Cached tasks and unsynced changes stay namespaced under the old server.
+  const confirmServerChange = (url: string) =>
+    new Promise<boolean>(resolve => {
+      Alert.alert(
+        t('settings.switchServerTitle'),
+        t('settings.switchServerMessage', { url }),
+        [
+          { text: t('common.cancel'), style: 'cancel', onPress: () => resolve(false) },
+          {
+            text: t('settings.switchServerAction'),
+            style: 'destructive',
+            onPress: async () => {
               await logout();
-            } catch (error) {
-              Alert.alert('Error', 'Failed to logout. Please try again.');
+              resolve(true);
             }
-          }
-        },
-      ]
-    );
-  };
+          },
+        ]
+      );
+    });
 
   return (
     <SafeAreaView style={styles.container} edges={['top']}>
       <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
         <ThemedView style={styles.content}>
-          <ThemedText style={styles.title}>Settings</ThemedText>
+          <ThemedText style={styles.title}>{t('settings.title')}</ThemedText>
 
           <ThemedView style={styles.section}>
-            <ThemedText style={styles.sectionTitle}>Account</ThemedText>
+            <ThemedText style={styles.sectionTitle}>{t('settings.account')}</ThemedText>
             <ThemedView style={styles.userInfo}>
               <Ionicons name="person-circle-outline" size={24} color="#3b82f6" />
-              <ThemedText style={styles.username}>{user?.username || 'Unknown User'}</ThemedText>
+              <ThemedText style={styles.username}>{user?.username || t('settings.unknownUser')}</ThemedText>
+            </ThemedView>
+          </ThemedView>
+
+          <ThemedView style={styles.section}>
+            <ThemedText style={styles.sectionTitle}>{t('settings.language')}</ThemedText>
+            <ThemedView style={styles.languageOptions}>
+              {languageOptions.map(option => {
+                const selected = preference === option.value;
+                return (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[styles.languageOption, selected && styles.languageOptionSelected]}
+                    onPress={() => setPreference(option.value)}
+                  >
+                    <ThemedText style={[styles.languageText, selected && styles.languageTextSelected]}>
+                      {option.label}
+                    </ThemedText>
+                  </TouchableOpacity>
+                );
+              })}
             </ThemedView>
           </ThemedView>
 
+          <ThemedView style={styles.section}>
+            <ThemedText style={styles.sectionTitle}>{t('settings.server')}</ThemedText>
+            <ServerPicker beforeChange={confirmServerChange} />
+          </ThemedView>
+
+          <MockBackendSettings />
+
+          <AppLockSettings />
+
+          <SyncConflictList />
+
+          <FailedSyncList />
+
           <TouchableOpacity style={styles.logoutButton} onPress={handleLogout}>
             <Ionicons name="log-out-outline" size={24} color="#ef4444" />
-            <ThemedText style={styles.logoutText}>Logout</ThemedText>
+            <ThemedText style={styles.logoutText}>{t('logout.action')}</ThemedText>
           </TouchableOpacity>
         </ThemedView>
       </ScrollView>
@@ -106,6 +154,31 @@ const styles = StyleSheet.create({
     color: '#1f2937',
     flex: 1,
   },
+  languageOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  languageOption: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    backgroundColor: '#ffffff',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  languageOptionSelected: {
+    backgroundColor: '#3b82f6',
+    borderColor: '#3b82f6',
+  },
+  languageText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  languageTextSelected: {
+    color: '#ffffff',
+  },
   logoutButton: {
     flexDirection: 'row',
     alignItems: 'center',
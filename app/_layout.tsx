@@ -7,13 +7,17 @@ import { useEffect } from 'react';
 import { AppState } from 'react-native';
 import 'react-native-reanimated';
 
+import { LockScreen } from '@/components/LockScreen';
 import { useColorScheme } from '@/hooks/useColorScheme';
+import { AppLockProvider, useAppLock } from '../contexts/AppLockContext';
 import { AuthProvider, useAuth } from '../contexts/AuthContext';
+import { LocaleProvider } from '../contexts/LocaleContext';
+import { networkService } from '../services/networkService';
 import { notificationService } from '../services/notificationService';
-import { taskService } from '../services/taskService';
 
 function AppNavigator() {
   const { isAuthenticated, loading } = useAuth();
+  const { isLocked, checking, markBackgrounded, lockIfIdle } = useAppLock();
 
   useEffect(() => {
     let isMounted = true;
@@ -46,9 +50,15 @@ function AppNavigator() {
     const handleAppStateChange = async (nextAppState: string) => {
       if (!isMounted || !isAuthenticated) return;
 
+      // 'inactive' also fires for the biometric prompt itself, so only a real background counts
+      if (nextAppState === 'background') {
+        markBackgrounded();
+      }
+
       if (nextAppState === 'active') {
         try {
-          await taskService.syncOfflineChanges();
+          await lockIfIdle();
+          await networkService.syncNow();
           await notificationService.forceCheckDueTasks();
         } catch (error) {
           console.error('Error during app state change handling:', error);
@@ -60,6 +70,7 @@ function AppNavigator() {
 
     if (isAuthenticated) {
       setupNotifications();
+      networkService.start();
     }
 
     return () => {
@@ -71,34 +82,41 @@ function AppNavigator() {
       if (!isAuthenticated) {
         notificationService.cleanup();
       }
+      networkService.stop();
     };
-  }, [isAuthenticated]);
+  }, [isAuthenticated, markBackgrounded, lockIfIdle]);
 
-  if (loading) {
+  if (loading || checking) {
     return null;
   }
 
   return (
-    <Stack>
-      {!isAuthenticated ? (
-        <Stack.Screen 
-          name="login" 
-          options={{ 
-            headerShown: false,
-            gestureEnabled: false 
-          }} 
-        />
-      ) : (
-        <Stack.Screen 
-          name="(tabs)" 
-          options={{ 
-            headerShown: false,
-            gestureEnabled: false
-          }} 
-        />
-      )}
-      <Stack.Screen name="+not-found" />
-    </Stack>
+    <>
+      <Stack>
+        {!isAuthenticated ? (
+          <Stack.Screen 
+            name="login" 
+            options={{ 
+              headerShown: false,
+              gestureEnabled: false 
+            }} 
+          />
+        ) : (
+          <>
+            <Stack.Screen 
+              name="(tabs)" 
+              options={{ 
+                headerShown: false,
+                gestureEnabled: false
+              }} 
+            />
+            <Stack.Screen name="task/[id]" />
+          </>
+        )}
+        <Stack.Screen name="+not-found" />
+      </Stack>
+      {isLocked && <LockScreen />}
+    </>
   );
 }
 
@@ -113,11 +131,15 @@ export default function RootLayout() {
   }
 
   return (
-    <AuthProvider>
-      <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
-        <AppNavigator />
-        <StatusBar style="auto" />
-      </ThemeProvider>
-    </AuthProvider>
+    <LocaleProvider>
+      <AuthProvider>
+        <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
+          <AppLockProvider>
+            <AppNavigator />
+          </AppLockProvider>
+          <StatusBar style="auto" />
+        </ThemeProvider>
+      </AuthProvider>
+    </LocaleProvider>
   );
 }
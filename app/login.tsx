@@ -11,20 +11,25 @@ import {
   TouchableOpacity
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { ServerPicker } from '../components/ServerPicker';
 import { ThemedText } from '../components/ThemedText';
 import { ThemedView } from '../components/ThemedView';
 import { API_CONFIG } from '../config/api';
 import { useAuth } from '../contexts/AuthContext';
+import { useLocale } from '../contexts/LocaleContext';
+import { getErrorMessage } from '../i18n';
+import { AuthError, ValidationError } from '../services/apiErrors';
 
 export default function LoginScreen() {
   const [username, setUsername] = useState(API_CONFIG.DEMO_CREDENTIALS.USERNAME);
   const [password, setPassword] = useState(API_CONFIG.DEMO_CREDENTIALS.PASSWORD);
   const [isLoading, setIsLoading] = useState(false);
   const { login } = useAuth();
+  const { t } = useLocale();
 
   const handleLogin = async () => {
     if (!username.trim() || !password.trim()) {
-      Alert.alert('Error', 'Please fill in all fields');
+      Alert.alert(t('common.error'), t('login.fillAllFields'));
       return;
     }
 
@@ -34,8 +39,11 @@ export default function LoginScreen() {
       router.replace('/(tabs)');
     } catch (error) {
       console.error('Login screen error:', error);
-      const errorMessage = error instanceof Error ? error.message : 'Login failed. Please try again.';
-      Alert.alert('Login Failed', errorMessage);
+      // Rejected credentials without a server message still read as a credentials problem
+      const fallback = error instanceof AuthError || error instanceof ValidationError
+        ? 'login.invalidCredentials'
+        : 'errors.server';
+      Alert.alert(t('login.failedTitle'), getErrorMessage(error, fallback));
     } finally {
       setIsLoading(false);
     }
@@ -50,18 +58,18 @@ export default function LoginScreen() {
         <ScrollView contentContainerStyle={styles.scrollContainer}>
           <ThemedView style={styles.content}>
             <ThemedView style={styles.header}>
-            <ThemedText style={styles.title}>Task Manager</ThemedText>
-              <ThemedText style={styles.subtitle}>Sign in to continue</ThemedText>
+            <ThemedText style={styles.title}>{t('login.title')}</ThemedText>
+              <ThemedText style={styles.subtitle}>{t('login.subtitle')}</ThemedText>
             </ThemedView>
 
             <ThemedView style={styles.form}>
               <ThemedView style={styles.inputContainer}>
-                <ThemedText style={styles.label}>Username</ThemedText>
+                <ThemedText style={styles.label}>{t('login.username')}</ThemedText>
                 <TextInput
                   style={styles.input}
                   value={username}
                   onChangeText={setUsername}
-                  placeholder="Enter your username"
+                  placeholder={t('login.usernamePlaceholder')}
                   autoCapitalize="none"
                   autoCorrect={false}
                   editable={!isLoading}
@@ -69,12 +77,12 @@ export default function LoginScreen() {
               </ThemedView>
 
               <ThemedView style={styles.inputContainer}>
-                <ThemedText style={styles.label}>Password</ThemedText>
+                <ThemedText style={styles.label}>{t('login.password')}</ThemedText>
                 <TextInput
                   style={styles.input}
                   value={password}
                   onChangeText={setPassword}
-                  placeholder="Enter your password"
+                  placeholder={t('login.passwordPlaceholder')}
                   secureTextEntry
                   autoCorrect={false}
                   editable={!isLoading}
@@ -87,14 +95,23 @@ export default function LoginScreen() {
                 disabled={isLoading}
               >
                 <Text style={styles.loginButtonText}>
-                  {isLoading ? 'Signing In...' : 'Sign In'}
+                  {isLoading ? t('login.signingIn') : t('login.signIn')}
                 </Text>
               </TouchableOpacity>
 
+              <ThemedView style={styles.serverContainer}>
+                <ThemedText style={styles.label}>{t('login.server')}</ThemedText>
+                <ServerPicker />
+              </ThemedView>
+
               <ThemedView style={styles.demoInfo}>
-                <ThemedText style={styles.demoText}>Demo Credentials:</ThemedText>
-                <ThemedText style={styles.demoText}>Username: {API_CONFIG.DEMO_CREDENTIALS.USERNAME}</ThemedText>
-                <ThemedText style={styles.demoText}>Password: {API_CONFIG.DEMO_CREDENTIALS.PASSWORD}</ThemedText>
+                <ThemedText style={styles.demoText}>{t('login.demoCredentials')}</ThemedText>
+                <ThemedText style={styles.demoText}>
+                  {t('login.demoUsername', { username: API_CONFIG.DEMO_CREDENTIALS.USERNAME })}
+                </ThemedText>
+                <ThemedText style={styles.demoText}>
+                  {t('login.demoPassword', { password: API_CONFIG.DEMO_CREDENTIALS.PASSWORD })}
+                </ThemedText>
               </ThemedView>
             </ThemedView>
           </ThemedView>
@@ -189,6 +206,9 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: '600',
   },
+  serverContainer: {
+    marginTop: 32,
+  },
   demoInfo: {
     marginTop: 32,
     padding: 16,
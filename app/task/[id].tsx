@@ -0,0 +1,310 @@
+import { Ionicons } from '@expo/vector-icons';
+import { Stack, useLocalSearchParams } from 'expo-router';
+import React, { useState } from 'react';
+import {
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  View
+} from 'react-native';
+
+import { MarkdownText } from '@/components/MarkdownText';
+import { TaskFormModal } from '@/components/TaskFormModal';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { PRIORITY_COLORS } from '@/constants/Priority';
+import { useLocale } from '@/contexts/LocaleContext';
+import { useOptimisticTaskActions } from '@/hooks/useOptimisticTaskActions';
+import { useProject } from '@/hooks/useProjects';
+import { useRepeatRuleText } from '@/hooks/useRepeatRuleText';
+import { useTask } from '@/hooks/useTasks';
+import { ChecklistItem, UpdateTaskData } from '@/services/taskService';
+
+export default function TaskDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const taskId = Number(id);
+  const task = useTask(taskId);
+  const project = useProject(task?.project_id);
+  const [modalVisible, setModalVisible] = useState(false);
+  const { t, formatDate } = useLocale();
+  const taskActions = useOptimisticTaskActions();
+  const { describeRule } = useRepeatRuleText();
+
+  const handleSubmit = async (data: UpdateTaskData) => {
+    taskActions.updateTask(taskId, data);
+  };
+
+  const toggleChecklistItem = (item: ChecklistItem) => {
+    if (!task) return;
+    const checklist = (task.checklist || []).map(existing =>
+      existing.id === item.id ? { ...existing, done: !existing.done } : existing
+    );
+    taskActions.updateTask(task.id, { checklist });
+  };
+
+  if (!task) {
+    return (
+      <ThemedView style={styles.centered}>
+        <Stack.Screen options={{ title: t('taskDetail.title') }} />
+        <Ionicons name="document-outline" size={48} color="#9ca3af" />
+        <ThemedText style={styles.notFound}>{t('taskDetail.notFound')}</ThemedText>
+      </ThemedView>
+    );
+  }
+
+  const dueDate = task.dueDate || (task.due_date ? new Date(task.due_date) : undefined);
+  const priority = task.priority || 'none';
+  const error = taskActions.errors[task.id];
+  const checklist = task.checklist || [];
+
+  return (
+    <ThemedView style={styles.container}>
+      <Stack.Screen
+        options={{
+          title: t('taskDetail.title'),
+          headerRight: () => (
+            <TouchableOpacity onPress={() => setModalVisible(true)} style={styles.editButton}>
+              <Ionicons name="pencil-outline" size={22} color="#3b82f6" />
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.titleRow}>
+          <TouchableOpacity onPress={() => taskActions.toggleComplete(task.id, !task.completed)}>
+            <Ionicons
+              name={task.completed ? 'checkbox' : 'checkbox-outline'}
+              size={28}
+              color={task.completed ? '#10b981' : '#6b7280'}
+            />
+          </TouchableOpacity>
+          <ThemedText style={[styles.title, task.completed && styles.completedText]}>
+            {task.title}
+          </ThemedText>
+        </View>
+
+        <View style={styles.metaRow}>
+          <Ionicons name="calendar-outline" size={16} color="#6b7280" />
+          <ThemedText style={styles.metaText}>
+            {dueDate
+              ? formatDate(dueDate, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })
+              : t('taskCard.noDueDate')}
+          </ThemedText>
+          {task.completed && (
+            <ThemedText style={styles.completedBadge}>{t('taskDetail.completed')}</ThemedText>
+          )}
+        </View>
+
+        <View style={styles.metaRow}>
+          <Ionicons
+            name={project ? project.icon : 'file-tray-outline'}
+            size={16}
+            color={project?.color ?? '#6b7280'}
+          />
+          <ThemedText style={[styles.metaText, project && { color: project.color }]}>
+            {project ? project.name : t('projects.inbox')}
+          </ThemedText>
+        </View>
+
+        {!!task.repeat_rule && (
+          <View style={styles.metaRow}>
+            <Ionicons name="repeat" size={16} color="#6b7280" />
+            <ThemedText style={styles.metaText}>{describeRule(task.repeat_rule)}</ThemedText>
+          </View>
+        )}
+
+        {priority !== 'none' && (
+          <View style={styles.metaRow}>
+            <Ionicons name="flag" size={16} color={PRIORITY_COLORS[priority]} />
+            <ThemedText style={[styles.metaText, { color: PRIORITY_COLORS[priority] }]}>
+              {t(`priority.${priority}`)}
+            </ThemedText>
+          </View>
+        )}
+
+        {task.tags && task.tags.length > 0 && (
+          <View style={styles.tags}>
+            {task.tags.map(tag => (
+              <View key={tag} style={styles.tag}>
+                <ThemedText style={styles.tagText}>#{tag}</ThemedText>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {error && (
+          <TouchableOpacity style={styles.errorContainer} onPress={() => taskActions.dismissError(task.id)}>
+            <Ionicons name="alert-circle-outline" size={16} color="#ef4444" />
+            <ThemedText style={styles.errorText}>{error}</ThemedText>
+          </TouchableOpacity>
+        )}
+
+        {checklist.length > 0 && (
+          <>
+            <ThemedText style={styles.sectionTitle}>
+              {t('taskDetail.checklist')} {checklist.filter(item => item.done).length}/{checklist.length}
+            </ThemedText>
+            <View style={styles.checklist}>
+              {checklist.map(item => (
+                <TouchableOpacity key={item.id} style={styles.checklistItem} onPress={() => toggleChecklistItem(item)}>
+                  <Ionicons
+                    name={item.done ? 'checkbox' : 'square-outline'}
+                    size={22}
+                    color={item.done ? '#10b981' : '#6b7280'}
+                  />
+                  <ThemedText style={[styles.checklistText, item.done && styles.completedText]}>
+                    {item.title}
+                  </ThemedText>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </>
+        )}
+
+        <ThemedText style={styles.sectionTitle}>{t('taskDetail.notes')}</ThemedText>
+        <View style={styles.notes}>
+          {task.description ? (
+            <MarkdownText>{task.description}</MarkdownText>
+          ) : (
+            <ThemedText style={styles.emptyNotes}>{t('taskDetail.noNotes')}</ThemedText>
+          )}
+        </View>
+      </ScrollView>
+
+      <TaskFormModal
+        visible={modalVisible}
+        task={task}
+        onClose={() => setModalVisible(false)}
+        onSubmit={handleSubmit}
+      />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 32,
+    backgroundColor: '#f8f9fa',
+  },
+  notFound: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#6b7280',
+    textAlign: 'center',
+  },
+  editButton: {
+    padding: 4,
+  },
+  content: {
+    padding: 20,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: 12,
+  },
+  title: {
+    flex: 1,
+    marginLeft: 12,
+    fontSize: 22,
+    fontWeight: '700',
+    lineHeight: 28,
+    color: '#1f2937',
+  },
+  completedText: {
+    textDecorationLine: 'line-through',
+    color: '#9ca3af',
+  },
+  metaRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  metaText: {
+    marginLeft: 6,
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  completedBadge: {
+    marginLeft: 8,
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#10b981',
+  },
+  tags: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  tag: {
+    backgroundColor: '#eff6ff',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  tagText: {
+    fontSize: 13,
+    color: '#3b82f6',
+  },
+  errorContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fee2e2',
+    borderRadius: 8,
+    padding: 8,
+    marginBottom: 16,
+  },
+  errorText: {
+    flex: 1,
+    marginLeft: 6,
+    fontSize: 13,
+    color: '#b91c1c',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginTop: 12,
+    marginBottom: 12,
+    color: '#374151',
+  },
+  checklist: {
+    backgroundColor: '#ffffff',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  checklistItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  checklistText: {
+    flex: 1,
+    marginLeft: 10,
+    fontSize: 16,
+    color: '#1f2937',
+  },
+  notes: {
+    backgroundColor: '#ffffff',
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  emptyNotes: {
+    fontSize: 15,
+    color: '#9ca3af',
+  },
+});
@@ -0,0 +1,278 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import {
+    Alert,
+    StyleSheet,
+    Switch,
+    TextInput,
+    TouchableOpacity,
+    View
+} from 'react-native';
+import { useAppLock } from '../contexts/AppLockContext';
+import { useLocale } from '../contexts/LocaleContext';
+import { IDLE_TIMEOUT_OPTIONS_MS, PIN_LENGTH } from '../services/appLockService';
+import { ThemedText } from './ThemedText';
+import { ThemedView } from './ThemedView';
+
+export function AppLockSettings() {
+  const {
+    settings,
+    biometricsAvailable,
+    setPin,
+    disable,
+    setBiometricsEnabled,
+    setIdleTimeout,
+  } = useAppLock();
+  const [showPinForm, setShowPinForm] = useState(false);
+  const [newPin, setNewPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { t } = useLocale();
+
+  const enabled = !!settings?.enabled;
+
+  const formatIdleTimeout = (ms: number) => {
+    if (ms === 0) return t('appLock.immediately');
+    return t('appLock.minutes', { count: Math.round(ms / 60000) });
+  };
+
+  const resetPinForm = () => {
+    setShowPinForm(false);
+    setNewPin('');
+    setConfirmPin('');
+  };
+
+  const handleToggleLock = (value: boolean) => {
+    if (value) {
+      setShowPinForm(true);
+      return;
+    }
+
+    Alert.alert(
+      t('appLock.disableTitle'),
+      t('appLock.disableMessage'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('appLock.disableAction'), style: 'destructive', onPress: () => disable() },
+      ]
+    );
+  };
+
+  const handleSavePin = async () => {
+    if (newPin.length !== PIN_LENGTH) {
+      Alert.alert(t('common.error'), t('appLock.pinLength', { length: PIN_LENGTH }));
+      return;
+    }
+    if (newPin !== confirmPin) {
+      Alert.alert(t('common.error'), t('appLock.pinMismatch'));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await setPin(newPin);
+      resetPinForm();
+    } catch (error) {
+      console.error('Error saving PIN:', error);
+      Alert.alert(t('common.error'), t('appLock.saveFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const digitsOnly = (value: string) => value.replace(/\D/g, '').slice(0, PIN_LENGTH);
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedText style={styles.sectionTitle}>{t('appLock.title')}</ThemedText>
+
+      <View style={styles.row}>
+        <Ionicons name="lock-closed-outline" size={20} color="#3b82f6" />
+        <ThemedText style={styles.rowLabel}>{t('appLock.requirePin')}</ThemedText>
+        <Switch value={enabled || showPinForm} onValueChange={handleToggleLock} />
+      </View>
+
+      {showPinForm && (
+        <View style={styles.pinForm}>
+          <TextInput
+            style={styles.input}
+            value={newPin}
+            onChangeText={value => setNewPin(digitsOnly(value))}
+            placeholder={t('appLock.newPin', { length: PIN_LENGTH })}
+            keyboardType="number-pad"
+            secureTextEntry
+            maxLength={PIN_LENGTH}
+            editable={!saving}
+          />
+          <TextInput
+            style={styles.input}
+            value={confirmPin}
+            onChangeText={value => setConfirmPin(digitsOnly(value))}
+            placeholder={t('appLock.confirmPin')}
+            keyboardType="number-pad"
+            secureTextEntry
+            maxLength={PIN_LENGTH}
+            editable={!saving}
+          />
+          <View style={styles.pinActions}>
+            <TouchableOpacity style={styles.cancelButton} onPress={resetPinForm} disabled={saving}>
+              <ThemedText style={styles.cancelText}>{t('common.cancel')}</ThemedText>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.saveButton} onPress={handleSavePin} disabled={saving}>
+              <ThemedText style={styles.saveText}>{saving ? t('common.saving') : t('appLock.savePin')}</ThemedText>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
+      {enabled && !showPinForm && (
+        <>
+          <TouchableOpacity style={styles.row} onPress={() => setShowPinForm(true)}>
+            <Ionicons name="keypad-outline" size={20} color="#3b82f6" />
+            <ThemedText style={styles.rowLabel}>{t('appLock.changePin')}</ThemedText>
+            <Ionicons name="chevron-forward" size={20} color="#9ca3af" />
+          </TouchableOpacity>
+
+          {biometricsAvailable && (
+            <View style={styles.row}>
+              <Ionicons name="finger-print-outline" size={20} color="#3b82f6" />
+              <ThemedText style={styles.rowLabel}>{t('appLock.biometrics')}</ThemedText>
+              <Switch
+                value={!!settings?.biometricsEnabled}
+                onValueChange={value => setBiometricsEnabled(value)}
+              />
+            </View>
+          )}
+
+          <View style={styles.timeoutRow}>
+            <ThemedText style={styles.timeoutLabel}>{t('appLock.lockAfter')}</ThemedText>
+            <View style={styles.timeoutOptions}>
+              {IDLE_TIMEOUT_OPTIONS_MS.map(ms => {
+                const selected = settings?.idleTimeoutMs === ms;
+                return (
+                  <TouchableOpacity
+                    key={ms}
+                    style={[styles.timeoutOption, selected && styles.timeoutOptionSelected]}
+                    onPress={() => setIdleTimeout(ms)}
+                  >
+                    <ThemedText style={[styles.timeoutText, selected && styles.timeoutTextSelected]}>
+                      {formatIdleTimeout(ms)}
+                    </ThemedText>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        </>
+      )}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 30,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 15,
+    color: '#374151',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#ffffff',
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    marginBottom: 8,
+  },
+  rowLabel: {
+    flex: 1,
+    marginLeft: 12,
+    fontSize: 16,
+    color: '#1f2937',
+  },
+  pinForm: {
+    backgroundColor: '#ffffff',
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    backgroundColor: '#ffffff',
+    color: '#1f2937',
+    marginBottom: 12,
+  },
+  pinActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+  },
+  cancelButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    marginRight: 8,
+  },
+  cancelText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  saveButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    backgroundColor: '#3b82f6',
+  },
+  saveText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  timeoutRow: {
+    backgroundColor: '#ffffff',
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  timeoutLabel: {
+    fontSize: 16,
+    color: '#1f2937',
+    marginBottom: 12,
+  },
+  timeoutOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  timeoutOption: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  timeoutOptionSelected: {
+    backgroundColor: '#3b82f6',
+    borderColor: '#3b82f6',
+  },
+  timeoutText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  timeoutTextSelected: {
+    color: '#ffffff',
+  },
+});
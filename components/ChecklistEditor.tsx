@@ -0,0 +1,147 @@
+import { Ionicons } from '@expo/vector-icons';
+import * as Crypto from 'expo-crypto';
+import React, { useState } from 'react';
+import {
+    StyleSheet,
+    TextInput,
+    TouchableOpacity,
+    View
+} from 'react-native';
+import { useLocale } from '../contexts/LocaleContext';
+import { ChecklistItem } from '../services/taskService';
+
+interface ChecklistEditorProps {
+  items: ChecklistItem[];
+  onChange: (items: ChecklistItem[]) => void;
+  editable?: boolean;
+}
+
+// Ordered checklist steps: check, rename, reorder and remove in place
+export function ChecklistEditor({ items, onChange, editable = true }: ChecklistEditorProps) {
+  const [text, setText] = useState('');
+  const { t } = useLocale();
+
+  const updateItem = (id: string, changes: Partial<ChecklistItem>) => {
+    onChange(items.map(item => (item.id === id ? { ...item, ...changes } : item)));
+  };
+
+  const removeItem = (id: string) => {
+    onChange(items.filter(item => item.id !== id));
+  };
+
+  const moveItem = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= items.length) return;
+
+    const reordered = [...items];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+  };
+
+  const addItem = () => {
+    const title = text.trim();
+    if (!title) return;
+
+    onChange([...items, { id: Crypto.randomUUID(), title, done: false }]);
+    setText('');
+  };
+
+  return (
+    <View>
+      {items.map((item, index) => (
+        <View key={item.id} style={styles.item}>
+          <TouchableOpacity onPress={() => updateItem(item.id, { done: !item.done })} disabled={!editable}>
+            <Ionicons
+              name={item.done ? 'checkbox' : 'square-outline'}
+              size={22}
+              color={item.done ? '#10b981' : '#6b7280'}
+            />
+          </TouchableOpacity>
+          <TextInput
+            style={[styles.itemInput, item.done && styles.doneText]}
+            value={item.title}
+            onChangeText={title => updateItem(item.id, { title })}
+            onEndEditing={() => !item.title.trim() && removeItem(item.id)}
+            editable={editable}
+          />
+          <TouchableOpacity
+            style={styles.iconButton}
+            onPress={() => moveItem(index, -1)}
+            disabled={!editable || index === 0}
+          >
+            <Ionicons name="chevron-up" size={18} color={index === 0 ? '#d1d5db' : '#6b7280'} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.iconButton}
+            onPress={() => moveItem(index, 1)}
+            disabled={!editable || index === items.length - 1}
+          >
+            <Ionicons name="chevron-down" size={18} color={index === items.length - 1 ? '#d1d5db' : '#6b7280'} />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.iconButton} onPress={() => removeItem(item.id)} disabled={!editable}>
+            <Ionicons name="close" size={18} color="#ef4444" />
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      <View style={styles.addRow}>
+        <Ionicons name="add" size={22} color="#3b82f6" />
+        <TextInput
+          style={styles.addInput}
+          value={text}
+          onChangeText={setText}
+          onSubmitEditing={addItem}
+          placeholder={t('taskForm.checklistPlaceholder')}
+          returnKeyType="done"
+          blurOnSubmit={false}
+          editable={editable}
+        />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginBottom: 8,
+  },
+  itemInput: {
+    flex: 1,
+    marginLeft: 8,
+    paddingVertical: 6,
+    fontSize: 16,
+    color: '#1f2937',
+  },
+  doneText: {
+    textDecorationLine: 'line-through',
+    color: '#9ca3af',
+  },
+  iconButton: {
+    padding: 4,
+    marginLeft: 2,
+  },
+  addRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    backgroundColor: '#ffffff',
+  },
+  addInput: {
+    flex: 1,
+    marginLeft: 8,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#1f2937',
+  },
+});
@@ -0,0 +1,152 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect } from '@react-navigation/native';
+import React, { useCallback, useState } from 'react';
+import {
+    Alert,
+    StyleSheet,
+    TouchableOpacity,
+    View
+} from 'react-native';
+import { useLocale } from '../contexts/LocaleContext';
+import { localizeServerMessage } from '../i18n';
+import { networkService } from '../services/networkService';
+import { OfflineAction, taskService } from '../services/taskService';
+import { ThemedText } from './ThemedText';
+import { ThemedView } from './ThemedView';
+
+export function FailedSyncList() {
+  const [actions, setActions] = useState<OfflineAction[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const { t, tp } = useLocale();
+
+  const loadActions = async () => {
+    try {
+      setActions(await taskService.getDeadLetterActions());
+    } catch (error) {
+      console.error('Error loading failed sync actions:', error);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadActions();
+    }, [])
+  );
+
+  const handleRetry = async (action: OfflineAction) => {
+    try {
+      setBusyId(action.id);
+      await taskService.retryDeadLetterAction(action.id);
+      await networkService.syncNow();
+    } catch (error) {
+      Alert.alert(t('common.error'), t('failedSync.retryFailed'));
+    } finally {
+      setBusyId(null);
+      await loadActions();
+    }
+  };
+
+  const handleDiscard = (action: OfflineAction) => {
+    Alert.alert(
+      t('failedSync.discardTitle'),
+      t('failedSync.discardMessage'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('failedSync.discard'),
+          style: 'destructive',
+          onPress: async () => {
+            await taskService.discardDeadLetterAction(action.id);
+            await loadActions();
+          }
+        },
+      ]
+    );
+  };
+
+  const describeAction = (action: OfflineAction) => {
+    const label = t(`failedSync.action.${action.type}`);
+    if (action.entity === 'project') {
+      return t('failedSync.describeProject', { action: label, name: action.data?.name ?? String(action.taskId) });
+    }
+    return action.data?.title
+      ? t('failedSync.describeTitled', { action: label, title: action.data.title })
+      : t('failedSync.describeTask', { action: label, id: action.taskId });
+  };
+
+  if (actions.length === 0) {
+    return null;
+  }
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedText style={styles.sectionTitle}>{t('failedSync.title', { count: actions.length })}</ThemedText>
+      {actions.map(action => (
+        <View key={action.id} style={styles.item}>
+          <Ionicons name="alert-circle-outline" size={20} color="#ef4444" />
+          <View style={styles.details}>
+            <ThemedText style={styles.title}>{describeAction(action)}</ThemedText>
+            <ThemedText style={styles.error} numberOfLines={2}>
+              {localizeServerMessage(action.lastServerMessage) || action.lastError || t('errors.unknown')}
+              {' · '}{tp('failedSync.attempts', action.attempts)}
+            </ThemedText>
+          </View>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => handleRetry(action)}
+            disabled={busyId === action.id}
+          >
+            <Ionicons name="refresh-outline" size={20} color={busyId === action.id ? '#9ca3af' : '#3b82f6'} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => handleDiscard(action)}
+            disabled={busyId === action.id}
+          >
+            <Ionicons name="trash-outline" size={20} color="#ef4444" />
+          </TouchableOpacity>
+        </View>
+      ))}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 30,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 15,
+    color: '#374151',
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#ffffff',
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#fecaca',
+    marginBottom: 8,
+  },
+  details: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#1f2937',
+  },
+  error: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  actionButton: {
+    padding: 8,
+    marginLeft: 4,
+  },
+});
@@ -0,0 +1,155 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import {
+    ActivityIndicator,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useAppLock } from '../contexts/AppLockContext';
+import { useAuth } from '../contexts/AuthContext';
+import { useLocale } from '../contexts/LocaleContext';
+import { PIN_LENGTH } from '../services/appLockService';
+import { ThemedText } from './ThemedText';
+
+// Covers the whole app while locked, so the screens underneath keep their state
+export function LockScreen() {
+  const { user, logout } = useAuth();
+  const { settings, biometricsAvailable, unlock, unlockWithBiometrics } = useAppLock();
+  const { t, tp } = useLocale();
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [verifying, setVerifying] = useState(false);
+
+  const canUseBiometrics = biometricsAvailable && !!settings?.biometricsEnabled;
+
+  useEffect(() => {
+    if (canUseBiometrics) {
+      unlockWithBiometrics();
+    }
+  }, [canUseBiometrics, unlockWithBiometrics]);
+
+  const handleChangePin = async (value: string) => {
+    const digits = value.replace(/\D/g, '').slice(0, PIN_LENGTH);
+    setPin(digits);
+    if (digits.length < PIN_LENGTH) return;
+
+    setVerifying(true);
+    try {
+      const result = await unlock(digits);
+      if (result.status === 'failed') {
+        setError(tp('appLock.wrongPin', result.attemptsLeft));
+      }
+    } catch (unlockError) {
+      console.error('Error verifying PIN:', unlockError);
+      setError(t('appLock.verifyFailed'));
+    } finally {
+      setPin('');
+      setVerifying(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <Ionicons name="lock-closed" size={48} color="#3b82f6" />
+      <ThemedText style={styles.title}>{t('appLock.locked')}</ThemedText>
+      <ThemedText style={styles.subtitle}>
+        {user ? t('appLock.enterPinAs', { name: user.name }) : t('appLock.enterPin')}
+      </ThemedText>
+
+      <TextInput
+        style={styles.pinInput}
+        value={pin}
+        onChangeText={handleChangePin}
+        keyboardType="number-pad"
+        secureTextEntry
+        maxLength={PIN_LENGTH}
+        autoFocus={!canUseBiometrics}
+        editable={!verifying}
+        placeholder={'•'.repeat(PIN_LENGTH)}
+        placeholderTextColor="#9ca3af"
+      />
+
+      {verifying && <ActivityIndicator color="#3b82f6" />}
+      {error && <Text style={styles.error}>{error}</Text>}
+
+      {canUseBiometrics && (
+        <TouchableOpacity style={styles.biometricButton} onPress={unlockWithBiometrics}>
+          <Ionicons name="finger-print" size={22} color="#3b82f6" />
+          <Text style={styles.biometricText}>{t('appLock.biometrics')}</Text>
+        </TouchableOpacity>
+      )}
+
+      <TouchableOpacity style={styles.logoutButton} onPress={() => logout()}>
+        <Text style={styles.logoutText}>{t('appLock.logoutInstead')}</Text>
+      </TouchableOpacity>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 32,
+    backgroundColor: '#f8f9fa',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+    marginTop: 16,
+    color: '#1f2937',
+  },
+  subtitle: {
+    fontSize: 15,
+    marginTop: 8,
+    marginBottom: 24,
+    color: '#6b7280',
+    textAlign: 'center',
+  },
+  pinInput: {
+    width: 160,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 12,
+    paddingVertical: 12,
+    fontSize: 24,
+    letterSpacing: 12,
+    textAlign: 'center',
+    backgroundColor: '#ffffff',
+    color: '#1f2937',
+    marginBottom: 16,
+  },
+  error: {
+    color: '#ef4444',
+    fontSize: 14,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  biometricButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 24,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    backgroundColor: '#eff6ff',
+  },
+  biometricText: {
+    marginLeft: 8,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#3b82f6',
+  },
+  logoutButton: {
+    marginTop: 32,
+  },
+  logoutText: {
+    fontSize: 15,
+    color: '#6b7280',
+    textDecorationLine: 'underline',
+  },
+});
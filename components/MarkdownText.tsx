@@ -0,0 +1,190 @@
+import { openBrowserAsync } from 'expo-web-browser';
+import React from 'react';
+import {
+    StyleProp,
+    StyleSheet,
+    Text,
+    TextStyle,
+    View
+} from 'react-native';
+
+type Block =
+  | { type: 'paragraph'; text: string }
+  | { type: 'heading'; text: string }
+  | { type: 'bullet'; text: string }
+  | { type: 'ordered'; text: string; number: string };
+
+// Bold, italic, [label](url) links and bare URLs; anything else is plain text
+const INLINE_PATTERN = /(\*\*[^*]+\*\*|__[^_]+__|\[[^\]]+\]\([^)\s]+\)|https?:\/\/[^\s)]+|\*[^*\s][^*]*\*)/g;
+
+const BULLET_PATTERN = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_PATTERN = /^\s*(\d+)[.)]\s+(.*)$/;
+const HEADING_PATTERN = /^#{1,6}\s+(.*)$/;
+
+function parseBlocks(markdown: string): Block[] {
+  const blocks: Block[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', text: paragraph.join('\n') });
+      paragraph = [];
+    }
+  };
+
+  markdown.split(/\r?\n/).forEach(line => {
+    const bullet = line.match(BULLET_PATTERN);
+    const ordered = line.match(ORDERED_PATTERN);
+    const heading = line.match(HEADING_PATTERN);
+
+    if (!line.trim()) {
+      flushParagraph();
+    } else if (bullet) {
+      flushParagraph();
+      blocks.push({ type: 'bullet', text: bullet[1] });
+    } else if (ordered) {
+      flushParagraph();
+      blocks.push({ type: 'ordered', text: ordered[2], number: ordered[1] });
+    } else if (heading) {
+      flushParagraph();
+      blocks.push({ type: 'heading', text: heading[1] });
+    } else {
+      paragraph.push(line);
+    }
+  });
+
+  flushParagraph();
+  return blocks;
+}
+
+function stripInline(text: string): string {
+  return text.replace(INLINE_PATTERN, token => {
+    const link = token.match(/^\[([^\]]+)\]\(/);
+    if (link) return link[1];
+    if (token.startsWith('**') || token.startsWith('__')) return token.slice(2, -2);
+    if (token.startsWith('*')) return token.slice(1, -1);
+    return token;
+  });
+}
+
+// One-line version of a note for previews, with the markdown syntax removed
+export function markdownToPlainText(markdown: string): string {
+  return parseBlocks(markdown)
+    .map(block => {
+      const text = stripInline(block.text).replace(/\n/g, ' ');
+      if (block.type === 'bullet') return `• ${text}`;
+      if (block.type === 'ordered') return `${block.number}. ${text}`;
+      return text;
+    })
+    .join(' ');
+}
+
+const openLink = (url: string) => {
+  // Only web links are opened, never other schemes typed into a note
+  if (!/^https?:\/\//i.test(url)) return;
+  openBrowserAsync(url);
+};
+
+function renderInline(text: string, keyPrefix: string): React.ReactNode[] {
+  return text.split(INLINE_PATTERN).map((token, index) => {
+    const key = `${keyPrefix}-${index}`;
+    if (!token) return null;
+
+    const link = token.match(/^\[([^\]]+)\]\(([^)\s]+)\)$/);
+    if (link) {
+      return (
+        <Text key={key} style={styles.link} onPress={() => openLink(link[2])}>
+          {link[1]}
+        </Text>
+      );
+    }
+    if (/^https?:\/\//.test(token)) {
+      return (
+        <Text key={key} style={styles.link} onPress={() => openLink(token)}>
+          {token}
+        </Text>
+      );
+    }
+    if (/^(\*\*|__).+(\*\*|__)$/.test(token)) {
+      return <Text key={key} style={styles.bold}>{token.slice(2, -2)}</Text>;
+    }
+    if (/^\*.+\*$/.test(token)) {
+      return <Text key={key} style={styles.italic}>{token.slice(1, -1)}</Text>;
+    }
+    return token;
+  });
+}
+
+interface MarkdownTextProps {
+  children: string;
+  style?: StyleProp<TextStyle>;
+}
+
+// Renders the small markdown subset used in task notes
+export function MarkdownText({ children, style }: MarkdownTextProps) {
+  const blocks = parseBlocks(children);
+
+  return (
+    <View>
+      {blocks.map((block, index) => {
+        const key = `block-${index}`;
+        const content = renderInline(block.text, key);
+
+        if (block.type === 'bullet' || block.type === 'ordered') {
+          return (
+            <View key={key} style={styles.listItem}>
+              <Text style={[styles.text, style, styles.marker]}>
+                {block.type === 'bullet' ? '•' : `${block.number}.`}
+              </Text>
+              <Text style={[styles.text, style, styles.listText]}>{content}</Text>
+            </View>
+          );
+        }
+
+        return (
+          <Text
+            key={key}
+            style={[styles.text, style, block.type === 'heading' && styles.heading, styles.paragraph]}
+          >
+            {content}
+          </Text>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  text: {
+    fontSize: 16,
+    lineHeight: 24,
+    color: '#374151',
+  },
+  paragraph: {
+    marginBottom: 8,
+  },
+  heading: {
+    fontWeight: '700',
+    color: '#1f2937',
+  },
+  listItem: {
+    flexDirection: 'row',
+    marginBottom: 4,
+  },
+  marker: {
+    minWidth: 20,
+  },
+  listText: {
+    flex: 1,
+  },
+  bold: {
+    fontWeight: '700',
+  },
+  italic: {
+    fontStyle: 'italic',
+  },
+  link: {
+    color: '#3b82f6',
+    textDecorationLine: 'underline',
+  },
+});
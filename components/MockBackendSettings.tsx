@@ -0,0 +1,173 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import {
+    Alert,
+    StyleSheet,
+    TouchableOpacity,
+    View
+} from 'react-native';
+import { useLocale } from '../contexts/LocaleContext';
+import { MockBackendConfig, isMockUrl, mockBackend } from '../services/mockBackend';
+import { serverConfigService } from '../services/serverConfigService';
+import { ThemedText } from './ThemedText';
+import { ThemedView } from './ThemedView';
+
+const LATENCY_OPTIONS_MS = [0, 300, 1000, 3000];
+const RATE_OPTIONS = [0, 0.1, 0.3, 1];
+const TOKEN_TTL_OPTIONS_SECONDS = [2 * 60, 60 * 60, 24 * 60 * 60];
+
+// Only shown while the built-in mock backend is the selected server
+export function MockBackendSettings() {
+  const [active, setActive] = useState(isMockUrl(serverConfigService.getApiBaseUrl()));
+  const [config, setConfig] = useState<MockBackendConfig | null>(null);
+  const { t, tp } = useLocale();
+
+  useEffect(() => {
+    mockBackend.getConfig().then(setConfig);
+    serverConfigService.load().then(() => setActive(isMockUrl(serverConfigService.getApiBaseUrl())));
+    return serverConfigService.subscribe(url => setActive(isMockUrl(url)));
+  }, []);
+
+  const update = async (changes: Partial<MockBackendConfig>) => {
+    setConfig(await mockBackend.updateConfig(changes));
+  };
+
+  const handleReset = () => {
+    Alert.alert(
+      t('mock.resetTitle'),
+      t('mock.resetMessage'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('mock.resetAction'), style: 'destructive', onPress: () => mockBackend.seed() },
+      ]
+    );
+  };
+
+  if (!active || !config) {
+    return null;
+  }
+
+  const formatLatency = (ms: number) => {
+    if (ms === 0) return t('mock.latencyNone');
+    return ms < 1000 ? `${ms} ms` : `${ms / 1000} s`;
+  };
+
+  const formatRate = (rate: number) => `${Math.round(rate * 100)}%`;
+
+  const formatDuration = (seconds: number) => {
+    if (seconds % 86400 === 0) return tp('mock.days', seconds / 86400);
+    if (seconds % 3600 === 0) return tp('mock.hours', seconds / 3600);
+    return t('mock.minutes', { count: Math.round(seconds / 60) });
+  };
+
+  const renderOptions = (
+    options: number[],
+    selected: number,
+    key: keyof MockBackendConfig,
+    format: (value: number) => string
+  ) => (
+    <View style={styles.options}>
+      {options.map(value => {
+        const isSelected = value === selected;
+        return (
+          <TouchableOpacity
+            key={value}
+            style={[styles.option, isSelected && styles.optionSelected]}
+            onPress={() => update({ [key]: value })}
+          >
+            <ThemedText style={[styles.optionText, isSelected && styles.optionTextSelected]}>
+              {format(value)}
+            </ThemedText>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedText style={styles.sectionTitle}>{t('mock.title')}</ThemedText>
+      <View style={styles.card}>
+        <ThemedText style={styles.label}>{t('mock.latency')}</ThemedText>
+        {renderOptions(LATENCY_OPTIONS_MS, config.latencyMs, 'latencyMs', formatLatency)}
+
+        <ThemedText style={styles.label}>{t('mock.serverErrors')}</ThemedText>
+        {renderOptions(RATE_OPTIONS, config.serverErrorRate, 'serverErrorRate', formatRate)}
+
+        <ThemedText style={styles.label}>{t('mock.networkFailures')}</ThemedText>
+        {renderOptions(RATE_OPTIONS, config.networkErrorRate, 'networkErrorRate', formatRate)}
+
+        <ThemedText style={styles.label}>{t('mock.sessionLength')}</ThemedText>
+        {renderOptions(TOKEN_TTL_OPTIONS_SECONDS, config.tokenTtlSeconds, 'tokenTtlSeconds', formatDuration)}
+
+        <TouchableOpacity style={styles.resetButton} onPress={handleReset}>
+          <Ionicons name="refresh-outline" size={18} color="#ef4444" />
+          <ThemedText style={styles.resetText}>{t('mock.reset')}</ThemedText>
+        </TouchableOpacity>
+      </View>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 30,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 15,
+    color: '#374151',
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  label: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#1f2937',
+    marginBottom: 8,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 12,
+  },
+  option: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  optionSelected: {
+    backgroundColor: '#3b82f6',
+    borderColor: '#3b82f6',
+  },
+  optionText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  optionTextSelected: {
+    color: '#ffffff',
+  },
+  resetButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    marginTop: 4,
+    paddingVertical: 8,
+  },
+  resetText: {
+    marginLeft: 6,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#ef4444',
+  },
+});
@@ -0,0 +1,44 @@
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+import { useLocale } from '../contexts/LocaleContext';
+import { useNetworkStatus } from '../hooks/useNetworkStatus';
+import { TranslationKey } from '../i18n';
+import { NetworkStatus } from '../services/networkService';
+import { ThemedText } from './ThemedText';
+
+const STATUS_APPEARANCE: Record<NetworkStatus, { label: TranslationKey; icon: keyof typeof Ionicons.glyphMap; color: string; background: string }> = {
+  online: { label: 'network.online', icon: 'cloud-done-outline', color: '#059669', background: '#d1fae5' },
+  offline: { label: 'network.offline', icon: 'cloud-offline-outline', color: '#92400e', background: '#fef3c7' },
+  syncing: { label: 'network.syncing', icon: 'sync-outline', color: '#1d4ed8', background: '#dbeafe' },
+};
+
+export function NetworkStatusIndicator() {
+  const status = useNetworkStatus();
+  const { t } = useLocale();
+  const appearance = STATUS_APPEARANCE[status];
+
+  return (
+    <View style={[styles.container, { backgroundColor: appearance.background }]}>
+      <Ionicons name={appearance.icon} size={14} color={appearance.color} />
+      <ThemedText style={[styles.label, { color: appearance.color }]}>{t(appearance.label)}</ThemedText>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    marginRight: 4,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginLeft: 4,
+    lineHeight: 16,
+  },
+});
@@ -0,0 +1,301 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import {
+    Alert,
+    Modal,
+    ScrollView,
+    StyleSheet,
+    TextInput,
+    TouchableOpacity,
+    View
+} from 'react-native';
+import { useLocale } from '../contexts/LocaleContext';
+import {
+    CreateProjectData,
+    Project,
+    PROJECT_COLORS,
+    PROJECT_ICONS
+} from '../services/projectService';
+import { ThemedText } from './ThemedText';
+import { ThemedView } from './ThemedView';
+
+interface ProjectFormModalProps {
+  visible: boolean;
+  project?: Project | null;
+  onClose: () => void;
+  onSubmit: (data: CreateProjectData) => Promise<void>;
+  onDelete?: (project: Project) => Promise<void>;
+}
+
+export function ProjectFormModal({ visible, project, onClose, onSubmit, onDelete }: ProjectFormModalProps) {
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(PROJECT_COLORS[0]);
+  const [icon, setIcon] = useState(PROJECT_ICONS[0]);
+  const [isLoading, setIsLoading] = useState(false);
+  const { t } = useLocale();
+
+  const isEditing = !!project;
+
+  useEffect(() => {
+    if (visible) {
+      setName(project?.name ?? '');
+      setColor(project?.color ?? PROJECT_COLORS[0]);
+      setIcon(project?.icon ?? PROJECT_ICONS[0]);
+    }
+  }, [visible, project]);
+
+  const handleSubmit = async () => {
+    if (!name.trim()) {
+      Alert.alert(t('common.error'), t('projects.nameRequired'));
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await onSubmit({ name: name.trim(), color, icon });
+      onClose();
+    } catch (error) {
+      Alert.alert(t('common.error'), t('projects.saveFailed'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!project || !onDelete) return;
+
+    Alert.alert(
+      t('projects.deleteTitle'),
+      t('projects.deleteMessage', { name: project.name }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            setIsLoading(true);
+            try {
+              await onDelete(project);
+              onClose();
+            } catch (error) {
+              Alert.alert(t('common.error'), t('projects.deleteFailed'));
+            } finally {
+              setIsLoading(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <ThemedView style={styles.container}>
+        <ThemedView style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.headerButton}>
+            <Ionicons name="close" size={24} color="#6b7280" />
+          </TouchableOpacity>
+          <ThemedText style={styles.title}>
+            {isEditing ? t('projects.edit') : t('projects.new')}
+          </ThemedText>
+          {isEditing && onDelete ? (
+            <TouchableOpacity onPress={handleDelete} style={styles.headerButton} disabled={isLoading}>
+              <Ionicons name="trash-outline" size={22} color="#ef4444" />
+            </TouchableOpacity>
+          ) : (
+            <View style={styles.placeholder} />
+          )}
+        </ThemedView>
+
+        <ScrollView style={styles.form} showsVerticalScrollIndicator={false}>
+          <ThemedView style={styles.inputContainer}>
+            <ThemedText style={styles.label}>{t('projects.name')}</ThemedText>
+            <TextInput
+              style={styles.input}
+              value={name}
+              onChangeText={setName}
+              placeholder={t('projects.namePlaceholder')}
+              editable={!isLoading}
+            />
+          </ThemedView>
+
+          <ThemedView style={styles.inputContainer}>
+            <ThemedText style={styles.label}>{t('projects.color')}</ThemedText>
+            <View style={styles.options}>
+              {PROJECT_COLORS.map(option => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.colorOption, { backgroundColor: option }]}
+                  onPress={() => setColor(option)}
+                  disabled={isLoading}
+                >
+                  {color === option && <Ionicons name="checkmark" size={20} color="#ffffff" />}
+                </TouchableOpacity>
+              ))}
+            </View>
+          </ThemedView>
+
+          <ThemedView style={styles.inputContainer}>
+            <ThemedText style={styles.label}>{t('projects.icon')}</ThemedText>
+            <View style={styles.options}>
+              {PROJECT_ICONS.map(option => {
+                const selected = icon === option;
+                return (
+                  <TouchableOpacity
+                    key={option}
+                    style={[styles.iconOption, selected && { backgroundColor: color, borderColor: color }]}
+                    onPress={() => setIcon(option)}
+                    disabled={isLoading}
+                  >
+                    <Ionicons name={option} size={22} color={selected ? '#ffffff' : color} />
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </ThemedView>
+        </ScrollView>
+
+        <ThemedView style={styles.footer}>
+          <TouchableOpacity
+            style={styles.cancelButton}
+            onPress={onClose}
+            disabled={isLoading}
+          >
+            <ThemedText style={styles.cancelButtonText}>{t('common.cancel')}</ThemedText>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.submitButton, isLoading && styles.submitButtonDisabled]}
+            onPress={handleSubmit}
+            disabled={isLoading}
+          >
+            <ThemedText style={styles.submitButtonText}>
+              {isLoading ? t('common.saving') : t('common.save')}
+            </ThemedText>
+          </TouchableOpacity>
+        </ThemedView>
+      </ThemedView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: 60,
+    paddingBottom: 20,
+    backgroundColor: '#ffffff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  headerButton: {
+    padding: 4,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  placeholder: {
+    width: 32,
+  },
+  form: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 24,
+  },
+  inputContainer: {
+    marginBottom: 24,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8,
+    color: '#374151',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    backgroundColor: '#ffffff',
+    color: '#1f2937',
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  colorOption: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+    marginBottom: 12,
+  },
+  iconOption: {
+    width: 44,
+    height: 44,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    backgroundColor: '#ffffff',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+    marginBottom: 12,
+  },
+  footer: {
+    flexDirection: 'row',
+    paddingHorizontal: 20,
+    paddingVertical: 20,
+    backgroundColor: '#ffffff',
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: 16,
+    alignItems: 'center',
+    marginRight: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  submitButton: {
+    flex: 1,
+    paddingVertical: 16,
+    alignItems: 'center',
+    marginLeft: 12,
+    borderRadius: 12,
+    backgroundColor: '#3b82f6',
+  },
+  submitButtonDisabled: {
+    backgroundColor: '#9ca3af',
+  },
+  submitButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+});
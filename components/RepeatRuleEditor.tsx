@@ -0,0 +1,362 @@
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import React, { useState } from 'react';
+import {
+    Platform,
+    StyleSheet,
+    TouchableOpacity,
+    View
+} from 'react-native';
+import { useLocale } from '../contexts/LocaleContext';
+import { useRepeatRuleText } from '../hooks/useRepeatRuleText';
+import {
+    formatRepeatRule,
+    getMonthDay,
+    getNthWeekday,
+    getWeekday,
+    parseRepeatRule,
+    RepeatFrequency,
+    RepeatRule
+} from '../services/recurrence';
+import { ThemedText } from './ThemedText';
+
+const FREQUENCIES: (RepeatFrequency | 'none')[] = ['none', 'daily', 'weekly', 'monthly', 'afterCompletion'];
+const WEEKDAYS = [0, 1, 2, 3, 4, 5, 6];
+const MAX_INTERVAL = 99;
+const DEFAULT_COUNT = 5;
+
+type EndMode = 'never' | 'until' | 'count';
+
+interface RepeatRuleEditorProps {
+  // RRULE-style string, or null for a one-off task
+  value: string | null;
+  // Due date of the task, YYYY-MM-DD; weekly and monthly defaults are taken from it
+  dueDate: string;
+  onChange: (value: string | null) => void;
+  editable?: boolean;
+}
+
+export function RepeatRuleEditor({ value, dueDate, onChange, editable = true }: RepeatRuleEditorProps) {
+  const [showUntilPicker, setShowUntilPicker] = useState(false);
+  const { t, tp, formatDate } = useLocale();
+  const { describeRule, weekdayName, ordinalName } = useRepeatRuleText();
+
+  const rule = parseRepeatRule(value);
+  const endMode: EndMode = rule?.until ? 'until' : rule?.count ? 'count' : 'never';
+
+  const update = (changes: Partial<RepeatRule>) => {
+    if (!rule) return;
+    onChange(formatRepeatRule({ ...rule, ...changes }));
+  };
+
+  const setFrequency = (frequency: RepeatFrequency | 'none') => {
+    if (frequency === 'none') {
+      onChange(null);
+      return;
+    }
+
+    onChange(formatRepeatRule({
+      frequency,
+      interval: rule?.interval ?? 1,
+      weekdays: frequency === 'weekly' ? [getWeekday(dueDate)] : [],
+      monthDay: frequency === 'monthly' ? getMonthDay(dueDate) : undefined,
+      until: rule?.until,
+      count: rule?.count,
+    }));
+  };
+
+  const toggleWeekday = (weekday: number) => {
+    if (!rule) return;
+    const selected = rule.weekdays.includes(weekday);
+    // A weekly rule needs at least one day
+    if (selected && rule.weekdays.length === 1) return;
+    update({
+      weekdays: selected ? rule.weekdays.filter(day => day !== weekday) : [...rule.weekdays, weekday],
+    });
+  };
+
+  const setEndMode = (mode: EndMode) => {
+    if (mode === 'until') {
+      const until = new Date(`${dueDate}T00:00:00Z`);
+      until.setUTCMonth(until.getUTCMonth() + 3);
+      update({ until: rule?.until ?? until.toISOString().split('T')[0], count: undefined });
+    } else if (mode === 'count') {
+      update({ until: undefined, count: rule?.count ?? DEFAULT_COUNT });
+    } else {
+      update({ until: undefined, count: undefined });
+    }
+  };
+
+  const handleUntilChange = (event: any, selectedDate?: Date) => {
+    setShowUntilPicker(Platform.OS === 'ios');
+    if (selectedDate) {
+      update({ until: selectedDate.toISOString().split('T')[0] });
+    }
+  };
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, selected && styles.chipSelected]}
+      onPress={onPress}
+      disabled={!editable}
+    >
+      <ThemedText style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</ThemedText>
+    </TouchableOpacity>
+  );
+
+  const renderStepper = (count: number, onStep: (count: number) => void, label: string) => (
+    <View style={styles.stepper}>
+      <TouchableOpacity
+        style={styles.stepButton}
+        onPress={() => onStep(count - 1)}
+        disabled={!editable || count <= 1}
+      >
+        <Ionicons name="remove" size={18} color={count <= 1 ? '#d1d5db' : '#3b82f6'} />
+      </TouchableOpacity>
+      <ThemedText style={styles.stepValue}>{count}</ThemedText>
+      <TouchableOpacity
+        style={styles.stepButton}
+        onPress={() => onStep(count + 1)}
+        disabled={!editable || count >= MAX_INTERVAL}
+      >
+        <Ionicons name="add" size={18} color={count >= MAX_INTERVAL ? '#d1d5db' : '#3b82f6'} />
+      </TouchableOpacity>
+      <ThemedText style={styles.stepLabel}>{label}</ThemedText>
+    </View>
+  );
+
+  const unitKey =
+    rule?.frequency === 'weekly' ? 'repeat.unit.week'
+    : rule?.frequency === 'monthly' ? 'repeat.unit.month'
+    : 'repeat.unit.day';
+  const nthWeekday = rule?.nthWeekday ?? getNthWeekday(dueDate);
+
+  return (
+    <View>
+      <View style={styles.chips}>
+        {FREQUENCIES.map(frequency =>
+          renderChip(
+            frequency,
+            t(`repeat.frequency.${frequency}`),
+            (rule?.frequency ?? 'none') === frequency,
+            () => setFrequency(frequency)
+          )
+        )}
+      </View>
+
+      {rule && (
+        <>
+          <View style={styles.row}>
+            <ThemedText style={styles.rowLabel}>{t('repeat.every')}</ThemedText>
+            {renderStepper(rule.interval, interval => update({ interval }), tp(unitKey, rule.interval))}
+          </View>
+
+          {rule.frequency === 'weekly' && (
+            <View style={styles.row}>
+              <ThemedText style={styles.rowLabel}>{t('repeat.onDays')}</ThemedText>
+              <View style={styles.weekdays}>
+                {WEEKDAYS.map(weekday => {
+                  const selected = rule.weekdays.includes(weekday);
+                  return (
+                    <TouchableOpacity
+                      key={weekday}
+                      style={[styles.weekday, selected && styles.chipSelected]}
+                      onPress={() => toggleWeekday(weekday)}
+                      disabled={!editable}
+                    >
+                      <ThemedText style={[styles.weekdayText, selected && styles.chipTextSelected]}>
+                        {weekdayName(weekday, 'narrow')}
+                      </ThemedText>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+          )}
+
+          {rule.frequency === 'monthly' && (
+            <View style={styles.chips}>
+              {renderChip(
+                'monthDay',
+                t('repeat.monthDay', { day: rule.monthDay ?? getMonthDay(dueDate) }),
+                !rule.nthWeekday,
+                () => update({ monthDay: getMonthDay(dueDate), nthWeekday: undefined })
+              )}
+              {renderChip(
+                'monthNth',
+                t('repeat.monthNth', { nth: ordinalName(nthWeekday.n), weekday: weekdayName(nthWeekday.weekday) }),
+                !!rule.nthWeekday,
+                () => update({ monthDay: undefined, nthWeekday: getNthWeekday(dueDate) })
+              )}
+            </View>
+          )}
+
+          <ThemedText style={styles.subLabel}>{t('repeat.ends')}</ThemedText>
+          <View style={styles.chips}>
+            {(['never', 'until', 'count'] as const).map(mode =>
+              renderChip(mode, t(`repeat.ends.${mode}`), endMode === mode, () => setEndMode(mode))
+            )}
+          </View>
+
+          {endMode === 'until' && rule.until && (
+            <TouchableOpacity
+              style={styles.dateButton}
+              onPress={() => setShowUntilPicker(true)}
+              disabled={!editable}
+            >
+              <Ionicons name="calendar-outline" size={18} color="#3b82f6" />
+              <ThemedText style={styles.dateText}>
+                {formatDate(new Date(`${rule.until}T00:00:00Z`), {
+                  year: 'numeric',
+                  month: 'long',
+                  day: 'numeric',
+                  timeZone: 'UTC',
+                })}
+              </ThemedText>
+            </TouchableOpacity>
+          )}
+
+          {endMode === 'count' && rule.count &&
+            renderStepper(rule.count, count => update({ count }), tp('repeat.unit.time', rule.count))}
+
+          {showUntilPicker && rule.until && (
+            <DateTimePicker
+              value={new Date(`${rule.until}T12:00:00Z`)}
+              mode="date"
+              display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+              onChange={handleUntilChange}
+              minimumDate={new Date(`${dueDate}T12:00:00Z`)}
+            />
+          )}
+
+          <View style={styles.summary}>
+            <Ionicons name="repeat" size={16} color="#6b7280" />
+            <ThemedText style={styles.summaryText}>{describeRule(value)}</ThemedText>
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    backgroundColor: '#ffffff',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#3b82f6',
+    borderColor: '#3b82f6',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  chipTextSelected: {
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  rowLabel: {
+    width: 56,
+    fontSize: 14,
+    color: '#374151',
+  },
+  subLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  stepButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    backgroundColor: '#ffffff',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepValue: {
+    minWidth: 36,
+    textAlign: 'center',
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  stepLabel: {
+    marginLeft: 8,
+    fontSize: 14,
+    color: '#374151',
+  },
+  weekdays: {
+    flex: 1,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  weekday: {
+    width: 34,
+    height: 34,
+    borderRadius: 17,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    backgroundColor: '#ffffff',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  weekdayText: {
+    fontSize: 13,
+    color: '#374151',
+  },
+  dateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    marginBottom: 8,
+  },
+  dateText: {
+    flex: 1,
+    fontSize: 15,
+    color: '#1f2937',
+    marginLeft: 10,
+  },
+  summary: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  summaryText: {
+    flex: 1,
+    marginLeft: 6,
+    fontSize: 13,
+    color: '#6b7280',
+  },
+});
@@ -0,0 +1,253 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import {
+    ActivityIndicator,
+    StyleSheet,
+    TextInput,
+    TouchableOpacity,
+    View
+} from 'react-native';
+import { useLocale } from '../contexts/LocaleContext';
+import { serverConfigService } from '../services/serverConfigService';
+import { ThemedText } from './ThemedText';
+
+const CUSTOM_ID = 'custom';
+
+interface ServerPickerProps {
+  // Runs after the health check passes and before the server is saved; return false to cancel
+  beforeChange?: (url: string) => Promise<boolean>;
+}
+
+export function ServerPicker({ beforeChange }: ServerPickerProps) {
+  const environments = serverConfigService.getEnvironments();
+  const { t } = useLocale();
+  const [currentUrl, setCurrentUrl] = useState(serverConfigService.getApiBaseUrl());
+  const [expanded, setExpanded] = useState(false);
+  const [selectedId, setSelectedId] = useState(CUSTOM_ID);
+  const [customUrl, setCustomUrl] = useState('');
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    serverConfigService.load().then(() => setCurrentUrl(serverConfigService.getApiBaseUrl()));
+    return serverConfigService.subscribe(setCurrentUrl);
+  }, []);
+
+  const openPicker = () => {
+    const current = environments.find(env => env.url === currentUrl);
+    setSelectedId(current ? current.id : CUSTOM_ID);
+    setCustomUrl(current ? '' : currentUrl);
+    setError(null);
+    setExpanded(true);
+  };
+
+  const handleConnect = async () => {
+    const selected = environments.find(env => env.id === selectedId);
+    const url = serverConfigService.normalizeUrl(selected ? selected.url : customUrl);
+    if (!url) {
+      setError(t('server.invalidUrl'));
+      return;
+    }
+    if (url === currentUrl) {
+      setExpanded(false);
+      return;
+    }
+
+    setChecking(true);
+    setError(null);
+    try {
+      const health = await serverConfigService.checkHealth(url);
+      if (!health.ok) {
+        setError(health.error || t('server.healthFailed'));
+        return;
+      }
+      if (beforeChange && !(await beforeChange(url))) return;
+
+      await serverConfigService.saveServer(url);
+      setExpanded(false);
+    } catch (saveError) {
+      console.error('Error changing server:', saveError);
+      setError(t('server.saveFailed'));
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  if (!expanded) {
+    const current = environments.find(env => env.url === currentUrl);
+    return (
+      <TouchableOpacity style={styles.summary} onPress={openPicker}>
+        <Ionicons name="server-outline" size={20} color="#3b82f6" />
+        <View style={styles.summaryText}>
+          <ThemedText style={styles.summaryName}>{current ? current.name : t('server.customServer')}</ThemedText>
+          <ThemedText style={styles.summaryUrl} numberOfLines={1}>{currentUrl}</ThemedText>
+        </View>
+        <ThemedText style={styles.changeText}>{t('server.change')}</ThemedText>
+      </TouchableOpacity>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      {environments.map(env => (
+        <TouchableOpacity
+          key={env.id}
+          style={styles.option}
+          onPress={() => setSelectedId(env.id)}
+          disabled={checking}
+        >
+          <Ionicons
+            name={selectedId === env.id ? 'radio-button-on' : 'radio-button-off'}
+            size={20}
+            color="#3b82f6"
+          />
+          <View style={styles.optionText}>
+            <ThemedText style={styles.optionName}>{env.name}</ThemedText>
+            <ThemedText style={styles.optionUrl} numberOfLines={1}>{env.url}</ThemedText>
+          </View>
+        </TouchableOpacity>
+      ))}
+
+      <TouchableOpacity
+        style={styles.option}
+        onPress={() => setSelectedId(CUSTOM_ID)}
+        disabled={checking}
+      >
+        <Ionicons
+          name={selectedId === CUSTOM_ID ? 'radio-button-on' : 'radio-button-off'}
+          size={20}
+          color="#3b82f6"
+        />
+        <View style={styles.optionText}>
+          <ThemedText style={styles.optionName}>{t('server.custom')}</ThemedText>
+        </View>
+      </TouchableOpacity>
+
+      {selectedId === CUSTOM_ID && (
+        <TextInput
+          style={styles.input}
+          value={customUrl}
+          onChangeText={setCustomUrl}
+          placeholder="https://api.example.com"
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="url"
+          editable={!checking}
+        />
+      )}
+
+      {error && <ThemedText style={styles.error}>{error}</ThemedText>}
+
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.cancelButton} onPress={() => setExpanded(false)} disabled={checking}>
+          <ThemedText style={styles.cancelText}>{t('common.cancel')}</ThemedText>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.connectButton} onPress={handleConnect} disabled={checking}>
+          {checking ? (
+            <ActivityIndicator size="small" color="#ffffff" />
+          ) : (
+            <ThemedText style={styles.connectText}>{t('server.checkAndSave')}</ThemedText>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  summary: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#ffffff',
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  summaryText: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  summaryName: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#1f2937',
+  },
+  summaryUrl: {
+    fontSize: 13,
+    color: '#6b7280',
+  },
+  changeText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#3b82f6',
+  },
+  container: {
+    backgroundColor: '#ffffff',
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  optionText: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  optionName: {
+    fontSize: 16,
+    color: '#1f2937',
+  },
+  optionUrl: {
+    fontSize: 13,
+    color: '#6b7280',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    backgroundColor: '#ffffff',
+    color: '#1f2937',
+    marginTop: 8,
+  },
+  error: {
+    color: '#ef4444',
+    fontSize: 14,
+    marginTop: 12,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 16,
+  },
+  cancelButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    marginRight: 8,
+  },
+  cancelText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  connectButton: {
+    minWidth: 120,
+    alignItems: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    backgroundColor: '#3b82f6',
+  },
+  connectText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+});
@@ -0,0 +1,188 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect } from '@react-navigation/native';
+import React, { useCallback, useState } from 'react';
+import {
+    Alert,
+    StyleSheet,
+    TouchableOpacity,
+    View
+} from 'react-native';
+import { useLocale } from '../contexts/LocaleContext';
+import { useRepeatRuleText } from '../hooks/useRepeatRuleText';
+import { TranslationKey } from '../i18n';
+import { projectStore } from '../services/projectStore';
+import { ConflictResolution, TaskConflict, TaskPriority, taskService } from '../services/taskService';
+import { ThemedText } from './ThemedText';
+import { ThemedView } from './ThemedView';
+
+const FIELD_LABELS: Record<TaskConflict['field'], TranslationKey> = {
+  title: 'conflicts.field.title',
+  description: 'conflicts.field.description',
+  priority: 'conflicts.field.priority',
+  tags: 'conflicts.field.tags',
+  projectId: 'conflicts.field.projectId',
+  checklist: 'conflicts.field.checklist',
+  autoComplete: 'conflicts.field.autoComplete',
+  repeatRule: 'conflicts.field.repeatRule',
+  completed: 'conflicts.field.completed',
+  dueDate: 'conflicts.field.dueDate',
+};
+
+export function SyncConflictList() {
+  const [conflicts, setConflicts] = useState<TaskConflict[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const { t } = useLocale();
+  const { describeRule } = useRepeatRuleText();
+
+  const loadConflicts = async () => {
+    try {
+      setConflicts(await taskService.getConflicts());
+    } catch (error) {
+      console.error('Error loading sync conflicts:', error);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadConflicts();
+    }, [])
+  );
+
+  const handleResolve = async (conflict: TaskConflict, choice: ConflictResolution) => {
+    try {
+      setBusyId(conflict.id);
+      await taskService.resolveConflict(conflict.id, choice);
+    } catch (error) {
+      Alert.alert(t('common.error'), t('conflicts.resolveFailed'));
+    } finally {
+      setBusyId(null);
+      await loadConflicts();
+    }
+  };
+
+  const formatValue = (field: TaskConflict['field'], value: any) => {
+    if (field === 'checklist') {
+      const items: any[] = value || [];
+      return t('conflicts.checklistProgress', { done: items.filter(item => item.done).length, total: items.length });
+    }
+    if (field === 'repeatRule') return describeRule(value);
+    if (field === 'autoComplete') return value ? t('conflicts.on') : t('conflicts.off');
+    if (field === 'projectId') {
+      return value == null ? t('projects.inbox') : projectStore.getProject(value)?.name ?? t('common.none');
+    }
+    if (value === null || value === undefined || value === '') return t('common.none');
+    if (Array.isArray(value)) return value.length > 0 ? value.map(tag => `#${tag}`).join(' ') : t('common.none');
+    if (field === 'completed') return value ? t('conflicts.done') : t('conflicts.notDone');
+    if (field === 'priority') return t(`priority.${value as TaskPriority}`);
+    return String(value);
+  };
+
+  const renderChoice = (conflict: TaskConflict, choice: ConflictResolution) => {
+    const isChosen = conflict.resolution === choice;
+    const value = choice === 'local' ? conflict.localValue : conflict.serverValue;
+
+    return (
+      <TouchableOpacity
+        style={[styles.choice, isChosen && styles.choiceActive]}
+        onPress={() => handleResolve(conflict, choice)}
+        disabled={busyId === conflict.id}
+      >
+        <ThemedText style={styles.choiceLabel}>
+          {choice === 'local' ? t('conflicts.mine') : t('conflicts.server')}
+        </ThemedText>
+        <ThemedText style={styles.choiceValue} numberOfLines={2}>
+          {formatValue(conflict.field, value)}
+        </ThemedText>
+        {isChosen && <Ionicons name="checkmark-circle" size={16} color="#3b82f6" />}
+      </TouchableOpacity>
+    );
+  };
+
+  if (conflicts.length === 0) {
+    return null;
+  }
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedText style={styles.sectionTitle}>{t('conflicts.title', { count: conflicts.length })}</ThemedText>
+      {conflicts.map(conflict => (
+        <View key={conflict.id} style={styles.item}>
+          <View style={styles.itemHeader}>
+            <Ionicons name="git-compare-outline" size={20} color="#f59e0b" />
+            <ThemedText style={styles.title} numberOfLines={1}>
+              {conflict.taskTitle} · {t(FIELD_LABELS[conflict.field])}
+            </ThemedText>
+          </View>
+          <View style={styles.choices}>
+            {renderChoice(conflict, 'local')}
+            {renderChoice(conflict, 'server')}
+          </View>
+        </View>
+      ))}
+      <ThemedText style={styles.hint}>
+        {t('conflicts.hint')}
+      </ThemedText>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 30,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 15,
+    color: '#374151',
+  },
+  item: {
+    backgroundColor: '#ffffff',
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#fde68a',
+    marginBottom: 8,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  title: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#1f2937',
+  },
+  choices: {
+    flexDirection: 'row',
+  },
+  choice: {
+    flex: 1,
+    padding: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    marginRight: 8,
+  },
+  choiceActive: {
+    borderColor: '#3b82f6',
+    backgroundColor: '#eff6ff',
+  },
+  choiceLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  choiceValue: {
+    fontSize: 14,
+    color: '#1f2937',
+    marginVertical: 2,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6b7280',
+  },
+});
@@ -0,0 +1,152 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import {
+    StyleSheet,
+    TextInput,
+    TouchableOpacity,
+    View
+} from 'react-native';
+import { useLocale } from '../contexts/LocaleContext';
+import { useAllTags } from '../hooks/useTasks';
+import { normalizeTags } from '../services/taskService';
+import { ThemedText } from './ThemedText';
+
+const MAX_SUGGESTIONS = 6;
+
+interface TagInputProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  editable?: boolean;
+}
+
+// Free-form tags with suggestions drawn from the tags already used on other tasks
+export function TagInput({ tags, onChange, editable = true }: TagInputProps) {
+  const [text, setText] = useState('');
+  const allTags = useAllTags();
+  const { t } = useLocale();
+
+  const addTag = (tag: string) => {
+    onChange(normalizeTags([...tags, tag]));
+    setText('');
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(tags.filter(existing => existing !== tag));
+  };
+
+  // A comma ends the tag being typed, so pasted lists split into separate tags
+  const handleChangeText = (value: string) => {
+    if (value.includes(',')) {
+      onChange(normalizeTags([...tags, ...value.split(',')]));
+      setText('');
+      return;
+    }
+    setText(value);
+  };
+
+  const query = text.trim().replace(/^#+/, '').toLowerCase();
+  const selected = new Set(tags.map(tag => tag.toLowerCase()));
+  const suggestions = allTags
+    .filter(tag => !selected.has(tag.toLowerCase()) && tag.toLowerCase().startsWith(query))
+    .slice(0, MAX_SUGGESTIONS);
+
+  return (
+    <View>
+      {tags.length > 0 && (
+        <View style={styles.chips}>
+          {tags.map(tag => (
+            <TouchableOpacity
+              key={tag}
+              style={styles.chip}
+              onPress={() => removeTag(tag)}
+              disabled={!editable}
+            >
+              <ThemedText style={styles.chipText}>#{tag}</ThemedText>
+              <Ionicons name="close" size={14} color="#3b82f6" />
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      <TextInput
+        style={styles.input}
+        value={text}
+        onChangeText={handleChangeText}
+        onSubmitEditing={() => query && addTag(text)}
+        placeholder={t('taskForm.tagsPlaceholder')}
+        autoCapitalize="none"
+        autoCorrect={false}
+        returnKeyType="done"
+        blurOnSubmit={false}
+        editable={editable}
+      />
+
+      {suggestions.length > 0 && (
+        <View style={styles.chips}>
+          {suggestions.map(tag => (
+            <TouchableOpacity
+              key={tag}
+              style={styles.suggestion}
+              onPress={() => addTag(tag)}
+              disabled={!editable}
+            >
+              <Ionicons name="add" size={14} color="#6b7280" />
+              <ThemedText style={styles.suggestionText}>#{tag}</ThemedText>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 4,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 16,
+    backgroundColor: '#eff6ff',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#3b82f6',
+    marginRight: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    backgroundColor: '#ffffff',
+    color: '#1f2937',
+    marginBottom: 8,
+  },
+  suggestion: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    backgroundColor: '#ffffff',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  suggestionText: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginLeft: 2,
+  },
+});
@@ -1,12 +1,17 @@
 import { Ionicons } from '@expo/vector-icons';
 import React from 'react';
 import {
+    ActivityIndicator,
     Alert,
     StyleSheet,
     TouchableOpacity,
     View
 } from 'react-native';
+import { PRIORITY_COLORS } from '../constants/Priority';
+import { useLocale } from '../contexts/LocaleContext';
+import { useProject } from '../hooks/useProjects';
 import { Task } from '../services/taskService';
+import { markdownToPlainText } from './MarkdownText';
 import { ThemedText } from './ThemedText';
 import { ThemedView } from './ThemedView';
 
@@ -15,11 +20,30 @@ interface TaskCardProps {
   onEdit: (task: Task) => void;
   onDelete: (taskId: number) => void;
   onToggleComplete: (taskId: number, completed: boolean) => void;
+  onPress?: (task: Task) => void;
+  isPending?: boolean;
+  error?: string;
+  onDismissError?: () => void;
 }
 
-export function TaskCard({ task, onEdit, onDelete, onToggleComplete }: TaskCardProps) {
+export function TaskCard({
+  task,
+  onEdit,
+  onDelete,
+  onToggleComplete,
+  onPress,
+  isPending,
+  error,
+  onDismissError,
+}: TaskCardProps) {
+  const { t, formatDate: formatLocaleDate } = useLocale();
+  const priority = task.priority || 'none';
+  const project = useProject(task.project_id);
+  const checklist = task.checklist || [];
+  const checkedCount = checklist.filter(item => item.done).length;
+
   const formatDate = (date: Date | undefined) => {
-    if (!date) return 'No due date';
+    if (!date) return t('taskCard.noDueDate');
     
     const today = new Date();
     const taskDate = new Date(date);
@@ -27,10 +51,10 @@ export function TaskCard({ task, onEdit, onDelete, onToggleComplete }: TaskCardP
     const isPast = taskDate < today && !isToday;
     
     if (isToday) {
-      return 'Today';
+      return t('taskCard.today');
     }
     
-    return taskDate.toLocaleDateString('en-US', {
+    return formatLocaleDate(taskDate, {
       month: 'short',
       day: 'numeric',
       year: taskDate.getFullYear() !== today.getFullYear() ? 'numeric' : undefined,
@@ -69,12 +93,12 @@ export function TaskCard({ task, onEdit, onDelete, onToggleComplete }: TaskCardP
 
   const handleDelete = () => {
     Alert.alert(
-      'Delete Task',
-      'Are you sure you want to delete this task?',
+      t('taskCard.deleteTitle'),
+      t('taskCard.deleteMessage'),
       [
-        { text: 'Cancel', style: 'cancel' },
+        { text: t('common.cancel'), style: 'cancel' },
         { 
-          text: 'Delete', 
+          text: t('common.delete'), 
           style: 'destructive',
           onPress: () => onDelete(task.id)
         },
@@ -101,10 +125,23 @@ export function TaskCard({ task, onEdit, onDelete, onToggleComplete }: TaskCardP
             />
           </TouchableOpacity>
           
-          <View style={styles.taskInfo}>
+          <TouchableOpacity
+            style={styles.taskInfo}
+            onPress={() => onPress?.(task)}
+            disabled={!onPress}
+            activeOpacity={0.7}
+          >
             <ThemedText style={[styles.title, task.completed && styles.completedText]}>
               {task.title}
             </ThemedText>
+            {!!task.description && (
+              <ThemedText
+                style={[styles.description, task.completed && styles.completedText]}
+                numberOfLines={2}
+              >
+                {markdownToPlainText(task.description)}
+              </ThemedText>
+            )}
             <View style={styles.dateContainer}>
               <Ionicons
                 name="calendar-outline"
@@ -123,14 +160,39 @@ export function TaskCard({ task, onEdit, onDelete, onToggleComplete }: TaskCardP
               {!task.completed && (
                 <View style={[styles.statusBadge, { backgroundColor: getStatusColor() }]}>
                   <ThemedText style={styles.statusBadgeText}>
-                    {getTaskStatus().toUpperCase()}
+                    {getTaskStatus() === 'past' ? t('taskCard.status.past') : t('taskCard.status.upcoming')}
                   </ThemedText>
                 </View>
               )}
               
+              {!!task.repeat_rule && (
+                <Ionicons name="repeat" size={14} color="#6b7280" style={styles.syncIcon} />
+              )}
+
+              {checklist.length > 0 && (
+                <View style={styles.checklistProgress}>
+                  <Ionicons
+                    name="checkbox-outline"
+                    size={14}
+                    color={checkedCount === checklist.length ? '#10b981' : '#6b7280'}
+                  />
+                  <ThemedText style={styles.checklistText}>
+                    {checkedCount}/{checklist.length}
+                  </ThemedText>
+                </View>
+              )}
+
+              {priority !== 'none' && !task.completed && (
+                <View style={[styles.statusBadge, { backgroundColor: PRIORITY_COLORS[priority] }]}>
+                  <ThemedText style={styles.statusBadgeText}>
+                    {t(`priority.${priority}`).toUpperCase()}
+                  </ThemedText>
+                </View>
+              )}
+
               {task.isLocal && (
                 <View style={styles.offlineBadge}>
-                  <ThemedText style={styles.offlineBadgeText}>Offline</ThemedText>
+                  <ThemedText style={styles.offlineBadgeText}>{t('taskCard.offline')}</ThemedText>
                 </View>
               )}
               {task.needsSync && (
@@ -141,8 +203,36 @@ export function TaskCard({ task, onEdit, onDelete, onToggleComplete }: TaskCardP
                   style={styles.syncIcon}
                 />
               )}
+              {isPending && (
+                <ActivityIndicator size="small" color="#9ca3af" style={styles.syncIcon} />
+              )}
             </View>
-          </View>
+
+            {project && (
+              <View style={styles.project}>
+                <Ionicons name={project.icon} size={12} color={project.color} />
+                <ThemedText style={[styles.projectText, { color: project.color }]}>{project.name}</ThemedText>
+              </View>
+            )}
+
+            {task.tags && task.tags.length > 0 && (
+              <View style={styles.tags}>
+                {task.tags.map(tag => (
+                  <View key={tag} style={styles.tag}>
+                    <ThemedText style={styles.tagText}>#{tag}</ThemedText>
+                  </View>
+                ))}
+              </View>
+            )}
+
+            {error && (
+              <TouchableOpacity style={styles.errorContainer} onPress={onDismissError}>
+                <Ionicons name="alert-circle-outline" size={14} color="#ef4444" />
+                <ThemedText style={styles.errorText}>{error}</ThemedText>
+                <Ionicons name="close" size={14} color="#ef4444" />
+              </TouchableOpacity>
+            )}
+          </TouchableOpacity>
         </View>
         
         <View style={styles.actions}>
@@ -232,6 +322,43 @@ const styles = StyleSheet.create({
     color: '#ef4444',
     fontWeight: '600',
   },
+  project: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  projectText: {
+    fontSize: 12,
+    fontWeight: '500',
+    marginLeft: 4,
+  },
+  tags: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+  },
+  tag: {
+    backgroundColor: '#eff6ff',
+    borderRadius: 8,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    marginRight: 6,
+    marginBottom: 4,
+  },
+  tagText: {
+    fontSize: 11,
+    color: '#3b82f6',
+  },
+  checklistProgress: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginLeft: 8,
+  },
+  checklistText: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginLeft: 2,
+  },
   offlineBadge: {
     backgroundColor: '#f59e0b',
     borderRadius: 8,
@@ -247,6 +374,21 @@ const styles = StyleSheet.create({
   syncIcon: {
     marginLeft: 4,
   },
+  errorContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+    backgroundColor: '#fee2e2',
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    alignSelf: 'flex-start',
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#b91c1c',
+    marginHorizontal: 4,
+  },
   actions: {
     flexDirection: 'row',
     alignItems: 'center',
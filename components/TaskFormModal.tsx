@@ -7,11 +7,26 @@ import {
     Platform,
     ScrollView,
     StyleSheet,
+    Switch,
     TextInput,
     TouchableOpacity,
     View
 } from 'react-native';
-import { CreateTaskData, Task, UpdateTaskData } from '../services/taskService';
+import { PRIORITY_COLORS } from '../constants/Priority';
+import { useLocale } from '../contexts/LocaleContext';
+import { useProjects } from '../hooks/useProjects';
+import {
+    ChecklistItem,
+    CreateTaskData,
+    normalizeChecklist,
+    Task,
+    TASK_PRIORITIES,
+    TaskPriority,
+    UpdateTaskData
+} from '../services/taskService';
+import { ChecklistEditor } from './ChecklistEditor';
+import { RepeatRuleEditor } from './RepeatRuleEditor';
+import { TagInput } from './TagInput';
 import { ThemedText } from './ThemedText';
 import { ThemedView } from './ThemedView';
 
@@ -20,13 +35,24 @@ interface TaskFormModalProps {
   task?: Task | null;
   onClose: () => void;
   onSubmit: (data: CreateTaskData | UpdateTaskData) => Promise<void>;
+  // Project for new tasks, e.g. the one selected on the Tasks tab
+  defaultProjectId?: number | null;
 }
 
-export function TaskFormModal({ visible, task, onClose, onSubmit }: TaskFormModalProps) {
+export function TaskFormModal({ visible, task, onClose, onSubmit, defaultProjectId = null }: TaskFormModalProps) {
   const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [priority, setPriority] = useState<TaskPriority>('none');
+  const [tags, setTags] = useState<string[]>([]);
+  const [projectId, setProjectId] = useState<number | null>(null);
+  const [checklist, setChecklist] = useState<ChecklistItem[]>([]);
+  const [autoComplete, setAutoComplete] = useState(false);
+  const [repeatRule, setRepeatRule] = useState<string | null>(null);
   const [dueDate, setDueDate] = useState(new Date());
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const { t, formatDate: formatLocaleDate } = useLocale();
+  const projects = useProjects();
 
   const isEditing = !!task;
 
@@ -34,19 +60,33 @@ export function TaskFormModal({ visible, task, onClose, onSubmit }: TaskFormModa
     if (visible) {
       if (task) {
         setTitle(task.title);
+        setDescription(task.description || '');
+        setPriority(task.priority || 'none');
+        setTags(task.tags || []);
+        setProjectId(task.project_id ?? null);
+        setChecklist(task.checklist || []);
+        setAutoComplete(!!task.auto_complete);
+        setRepeatRule(task.repeat_rule || null);
         // Handle different date formats from backend
         const taskDate = task.dueDate || (task.due_date ? new Date(task.due_date) : new Date());
         setDueDate(taskDate);
       } else {
         setTitle('');
+        setDescription('');
+        setPriority('none');
+        setTags([]);
+        setProjectId(defaultProjectId);
+        setChecklist([]);
+        setAutoComplete(false);
+        setRepeatRule(null);
         setDueDate(new Date());
       }
     }
-  }, [visible, task]);
+  }, [visible, task, defaultProjectId]);
 
   const handleSubmit = async () => {
     if (!title.trim()) {
-      Alert.alert('Error', 'Please enter a task title');
+      Alert.alert(t('common.error'), t('taskForm.titleRequired'));
       return;
     }
 
@@ -54,13 +94,20 @@ export function TaskFormModal({ visible, task, onClose, onSubmit }: TaskFormModa
     try {
       const taskData = {
         title: title.trim(),
+        description: description.trim(),
+        priority,
+        tags,
+        projectId,
+        checklist: normalizeChecklist(checklist),
+        autoComplete,
+        repeatRule,
         dueDate: dueDate.toISOString().split('T')[0], // Format as YYYY-MM-DD for backend
       };
 
       await onSubmit(taskData);
       onClose();
     } catch (error) {
-      Alert.alert('Error', 'Failed to save task. Please try again.');
+      Alert.alert(t('common.error'), t('taskForm.saveFailed'));
     } finally {
       setIsLoading(false);
     }
@@ -74,7 +121,7 @@ export function TaskFormModal({ visible, task, onClose, onSubmit }: TaskFormModa
   };
 
   const formatDate = (date: Date) => {
-    return date.toLocaleDateString('en-US', {
+    return formatLocaleDate(date, {
       weekday: 'long',
       year: 'numeric',
       month: 'long',
@@ -95,26 +142,121 @@ export function TaskFormModal({ visible, task, onClose, onSubmit }: TaskFormModa
             <Ionicons name="close" size={24} color="#6b7280" />
           </TouchableOpacity>
           <ThemedText style={styles.title}>
-            {isEditing ? 'Edit Task' : 'New Task'}
+            {isEditing ? t('taskForm.editTitle') : t('taskForm.newTitle')}
           </ThemedText>
           <View style={styles.placeholder} />
         </ThemedView>
 
         <ScrollView style={styles.form} showsVerticalScrollIndicator={false}>
           <ThemedView style={styles.inputContainer}>
-            <ThemedText style={styles.label}>Title *</ThemedText>
+            <ThemedText style={styles.label}>{t('taskForm.title')}</ThemedText>
             <TextInput
               style={styles.input}
               value={title}
               onChangeText={setTitle}
-              placeholder="Enter task title"
+              placeholder={t('taskForm.titlePlaceholder')}
+              editable={!isLoading}
+              multiline
+            />
+          </ThemedView>
+
+          <ThemedView style={styles.inputContainer}>
+            <ThemedText style={styles.label}>{t('taskForm.description')}</ThemedText>
+            <TextInput
+              style={[styles.input, styles.descriptionInput]}
+              value={description}
+              onChangeText={setDescription}
+              placeholder={t('taskForm.descriptionPlaceholder')}
               editable={!isLoading}
               multiline
+              textAlignVertical="top"
             />
           </ThemedView>
 
           <ThemedView style={styles.inputContainer}>
-            <ThemedText style={styles.label}>Due Date</ThemedText>
+            <ThemedText style={styles.label}>{t('taskForm.checklist')}</ThemedText>
+            <ChecklistEditor items={checklist} onChange={setChecklist} editable={!isLoading} />
+            {checklist.length > 0 && (
+              <View style={styles.switchRow}>
+                <ThemedText style={styles.switchLabel}>{t('taskForm.autoComplete')}</ThemedText>
+                <Switch value={autoComplete} onValueChange={setAutoComplete} disabled={isLoading} />
+              </View>
+            )}
+          </ThemedView>
+
+          <ThemedView style={styles.inputContainer}>
+            <ThemedText style={styles.label}>{t('taskForm.priority')}</ThemedText>
+            <View style={styles.priorityOptions}>
+              {TASK_PRIORITIES.map(level => {
+                const selected = priority === level;
+                return (
+                  <TouchableOpacity
+                    key={level}
+                    style={[
+                      styles.priorityOption,
+                      selected && { backgroundColor: PRIORITY_COLORS[level], borderColor: PRIORITY_COLORS[level] },
+                    ]}
+                    onPress={() => setPriority(level)}
+                    disabled={isLoading}
+                  >
+                    <Ionicons
+                      name={level === 'none' ? 'flag-outline' : 'flag'}
+                      size={14}
+                      color={selected ? '#ffffff' : PRIORITY_COLORS[level]}
+                    />
+                    <ThemedText style={[styles.priorityText, selected && styles.priorityTextSelected]}>
+                      {t(`priority.${level}`)}
+                    </ThemedText>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </ThemedView>
+
+          {projects.length > 0 && (
+            <ThemedView style={styles.inputContainer}>
+              <ThemedText style={styles.label}>{t('taskForm.project')}</ThemedText>
+              <View style={styles.priorityOptions}>
+                <TouchableOpacity
+                  style={[styles.priorityOption, projectId === null && styles.projectOptionSelected]}
+                  onPress={() => setProjectId(null)}
+                  disabled={isLoading}
+                >
+                  <Ionicons name="file-tray-outline" size={14} color={projectId === null ? '#ffffff' : '#6b7280'} />
+                  <ThemedText style={[styles.priorityText, projectId === null && styles.priorityTextSelected]}>
+                    {t('projects.inbox')}
+                  </ThemedText>
+                </TouchableOpacity>
+                {projects.map(project => {
+                  const selected = projectId === project.id;
+                  return (
+                    <TouchableOpacity
+                      key={project.id}
+                      style={[
+                        styles.priorityOption,
+                        selected && { backgroundColor: project.color, borderColor: project.color },
+                      ]}
+                      onPress={() => setProjectId(project.id)}
+                      disabled={isLoading}
+                    >
+                      <Ionicons name={project.icon} size={14} color={selected ? '#ffffff' : project.color} />
+                      <ThemedText style={[styles.priorityText, selected && styles.priorityTextSelected]}>
+                        {project.name}
+                      </ThemedText>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </ThemedView>
+          )}
+
+          <ThemedView style={styles.inputContainer}>
+            <ThemedText style={styles.label}>{t('taskForm.tags')}</ThemedText>
+            <TagInput tags={tags} onChange={setTags} editable={!isLoading} />
+          </ThemedView>
+
+          <ThemedView style={styles.inputContainer}>
+            <ThemedText style={styles.label}>{t('taskForm.dueDate')}</ThemedText>
             <TouchableOpacity
               style={styles.dateButton}
               onPress={() => setShowDatePicker(true)}
@@ -137,6 +279,16 @@ export function TaskFormModal({ visible, task, onClose, onSubmit }: TaskFormModa
               minimumDate={new Date()}
             />
           )}
+
+          <ThemedView style={styles.inputContainer}>
+            <ThemedText style={styles.label}>{t('taskForm.repeat')}</ThemedText>
+            <RepeatRuleEditor
+              value={repeatRule}
+              dueDate={dueDate.toISOString().split('T')[0]}
+              onChange={setRepeatRule}
+              editable={!isLoading}
+            />
+          </ThemedView>
         </ScrollView>
 
         <ThemedView style={styles.footer}>
@@ -145,7 +297,7 @@ export function TaskFormModal({ visible, task, onClose, onSubmit }: TaskFormModa
             onPress={onClose}
             disabled={isLoading}
           >
-            <ThemedText style={styles.cancelButtonText}>Cancel</ThemedText>
+            <ThemedText style={styles.cancelButtonText}>{t('common.cancel')}</ThemedText>
           </TouchableOpacity>
 
           <TouchableOpacity
@@ -154,7 +306,7 @@ export function TaskFormModal({ visible, task, onClose, onSubmit }: TaskFormModa
             disabled={isLoading}
           >
             <ThemedText style={styles.submitButtonText}>
-              {isLoading ? 'Saving...' : isEditing ? 'Update' : 'Create'}
+              {isLoading ? t('common.saving') : isEditing ? t('taskForm.update') : t('taskForm.create')}
             </ThemedText>
           </TouchableOpacity>
         </ThemedView>
@@ -214,6 +366,49 @@ const styles = StyleSheet.create({
     backgroundColor: '#ffffff',
     color: '#1f2937',
   },
+  descriptionInput: {
+    minHeight: 120,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  switchLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: '#374151',
+    marginRight: 12,
+  },
+  priorityOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  priorityOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    backgroundColor: '#ffffff',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  priorityText: {
+    marginLeft: 4,
+    fontSize: 14,
+    color: '#374151',
+  },
+  priorityTextSelected: {
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+  projectOptionSelected: {
+    backgroundColor: '#6b7280',
+    borderColor: '#6b7280',
+  },
   dateButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1,14 +1,48 @@
-const DEV_MACHINE_IP = '192.168.5.165';
+import Constants from 'expo-constants';
+
 const API_PORT = '3000';
 
+export interface ServerEnvironment {
+  id: string;
+  name: string;
+  url: string;
+}
+
+// The backend usually runs on the same machine as the Expo dev server
+function getLocalServerUrl(): string {
+  const devHost = Constants.expoConfig?.hostUri?.split(':')[0];
+  return `http://${devHost || 'localhost'}:${API_PORT}`;
+}
+
+function getEnvironments(): ServerEnvironment[] {
+  const environments: ServerEnvironment[] = [
+    { id: 'local', name: 'Local', url: getLocalServerUrl() },
+  ];
+
+  // Shared servers are configured per build, e.g. in .env
+  if (process.env.EXPO_PUBLIC_STAGING_API_URL) {
+    environments.push({ id: 'staging', name: 'Staging', url: process.env.EXPO_PUBLIC_STAGING_API_URL });
+  }
+  if (process.env.EXPO_PUBLIC_PRODUCTION_API_URL) {
+    environments.push({ id: 'production', name: 'Production', url: process.env.EXPO_PUBLIC_PRODUCTION_API_URL });
+  }
+
+  // Built-in mock backend, see services/mockBackend.ts
+  environments.push({ id: 'mock', name: 'Demo (built-in mock)', url: 'mock://demo' });
+
+  return environments;
+}
+
 export const API_CONFIG = {
-  BASE_URL: `http://${DEV_MACHINE_IP}:${API_PORT}`,
+  ENVIRONMENTS: getEnvironments(),
   ENDPOINTS: {
     AUTH: {
       LOGIN: '/auth/login',
       LOGOUT: '/auth/logout',
     },
     TASKS: '/tasks',
+    PROJECTS: '/projects',
+    HEALTH: '/health',
   },
   DEMO_CREDENTIALS: {
     USERNAME: 'admin',
@@ -16,12 +50,14 @@ export const API_CONFIG = {
   }
 };
 
-export const API_BASE_URL = API_CONFIG.BASE_URL;
+// Production builds default to production when it is configured
+export const DEFAULT_ENVIRONMENT: ServerEnvironment =
+  (!__DEV__ && API_CONFIG.ENVIRONMENTS.find(env => env.id === 'production')) || API_CONFIG.ENVIRONMENTS[0];
 
 if (__DEV__) {
   console.log('API Configuration:', {
-    baseUrl: API_CONFIG.BASE_URL,
+    environments: API_CONFIG.ENVIRONMENTS,
     endpoints: API_CONFIG.ENDPOINTS,
     demoCredentials: API_CONFIG.DEMO_CREDENTIALS
   });
-} 
\ No newline at end of file
+}
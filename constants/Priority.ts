@@ -0,0 +1,9 @@
+import { TaskPriority } from '../services/taskService';
+
+export const PRIORITY_COLORS: Record<TaskPriority, string> = {
+  none: '#9ca3af',
+  low: '#10b981',
+  medium: '#3b82f6',
+  high: '#f59e0b',
+  urgent: '#ef4444',
+};
@@ -0,0 +1,155 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { Alert } from 'react-native';
+import { t } from '../i18n';
+import { AppLockSettings, appLockService, UnlockResult } from '../services/appLockService';
+import { useAuth } from './AuthContext';
+
+interface AppLockContextType {
+  isLocked: boolean;
+  // True until the lock state of a restored session is known
+  checking: boolean;
+  settings: AppLockSettings | null;
+  biometricsAvailable: boolean;
+  unlock: (pin: string) => Promise<UnlockResult>;
+  unlockWithBiometrics: () => Promise<boolean>;
+  setPin: (pin: string) => Promise<void>;
+  disable: () => Promise<void>;
+  setBiometricsEnabled: (enabled: boolean) => Promise<void>;
+  setIdleTimeout: (idleTimeoutMs: number) => Promise<void>;
+  markBackgrounded: () => void;
+  lockIfIdle: () => Promise<void>;
+}
+
+const AppLockContext = createContext<AppLockContextType | undefined>(undefined);
+
+export function AppLockProvider({ children }: { children: React.ReactNode }) {
+  const { user, loading, logout } = useAuth();
+  const [isLocked, setIsLocked] = useState(false);
+  const [checking, setChecking] = useState(true);
+  const [settings, setSettings] = useState<AppLockSettings | null>(null);
+  const [biometricsAvailable, setBiometricsAvailable] = useState(false);
+  const restoredSessionChecked = useRef(false);
+
+  const refreshSettings = useCallback(async () => {
+    setSettings(await appLockService.getSettings());
+  }, []);
+
+  useEffect(() => {
+    appLockService.isBiometricsAvailable().then(setBiometricsAvailable);
+  }, []);
+
+  // A session restored at startup is locked straight away; a fresh login is not
+  useEffect(() => {
+    if (loading || restoredSessionChecked.current) return;
+    restoredSessionChecked.current = true;
+
+    const checkRestoredSession = async () => {
+      try {
+        const current = await appLockService.getSettings();
+        setSettings(current);
+        if (user && current.enabled) {
+          setIsLocked(true);
+        }
+      } catch (error) {
+        console.error('Error checking app lock:', error);
+      } finally {
+        setChecking(false);
+      }
+    };
+
+    checkRestoredSession();
+  }, [loading, user]);
+
+  useEffect(() => {
+    if (!user) {
+      setIsLocked(false);
+      refreshSettings();
+    }
+  }, [user, refreshSettings]);
+
+  const forceLogout = async () => {
+    Alert.alert(t('appLock.lockedOutTitle'), t('appLock.lockedOutMessage'));
+    setIsLocked(false);
+    await logout();
+  };
+
+  const unlock = async (pin: string) => {
+    const result = await appLockService.verifyPin(pin);
+    if (result.status === 'unlocked') {
+      setIsLocked(false);
+    } else if (result.status === 'locked_out') {
+      await forceLogout();
+    }
+    return result;
+  };
+
+  // Stable, so the lock screen can prompt from an effect
+  const unlockWithBiometrics = useCallback(async () => {
+    const success = await appLockService.unlockWithBiometrics();
+    if (success) setIsLocked(false);
+    return success;
+  }, []);
+
+  const setPin = async (pin: string) => {
+    await appLockService.setPin(pin);
+    await refreshSettings();
+  };
+
+  const disable = async () => {
+    await appLockService.disable();
+    await refreshSettings();
+  };
+
+  const setBiometricsEnabled = async (enabled: boolean) => {
+    if (enabled && !(await appLockService.unlockWithBiometrics())) {
+      // Confirm the biometrics work before relying on them
+      return;
+    }
+    await appLockService.setBiometricsEnabled(enabled);
+    await refreshSettings();
+  };
+
+  const setIdleTimeout = async (idleTimeoutMs: number) => {
+    await appLockService.setIdleTimeout(idleTimeoutMs);
+    await refreshSettings();
+  };
+
+  const markBackgrounded = useCallback(() => {
+    appLockService.markBackgrounded();
+  }, []);
+
+  const lockIfIdle = useCallback(async () => {
+    if (await appLockService.shouldLockAfterBackground()) {
+      setIsLocked(true);
+    }
+  }, []);
+
+  const value: AppLockContextType = {
+    isLocked: isLocked && !!user,
+    checking,
+    settings,
+    biometricsAvailable,
+    unlock,
+    unlockWithBiometrics,
+    setPin,
+    disable,
+    setBiometricsEnabled,
+    setIdleTimeout,
+    markBackgrounded,
+    lockIfIdle,
+  };
+
+  return (
+    <AppLockContext.Provider value={value}>
+      {children}
+    </AppLockContext.Provider>
+  );
+}
+
+export function useAppLock() {
+  const context = useContext(AppLockContext);
+  if (context === undefined) {
+    throw new Error('useAppLock must be used within an AppLockProvider');
+  }
+  return context;
+}
@@ -1,13 +1,26 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
+import { Alert } from 'react-native';
+import { t } from '../i18n';
+import { appLockService } from '../services/appLockService';
 import { authService, LoginCredentials, User } from '../services/authService';
+import { networkService } from '../services/networkService';
 import { notificationService } from '../services/notificationService';
+import { projectService } from '../services/projectService';
+import { projectStore } from '../services/projectStore';
+import { storageService } from '../services/storageService';
 import { taskService } from '../services/taskService';
+import { taskStore } from '../services/taskStore';
+
+export interface LogoutOptions {
+  // Remove this account's cached tasks and unsynced changes from the device
+  clearData?: boolean;
+}
 
 interface AuthContextType {
   user: User | null;
   loading: boolean;
   login: (credentials: LoginCredentials) => Promise<void>;
-  logout: () => Promise<void>;
+  logout: (options?: LogoutOptions) => Promise<void>;
   isAuthenticated: boolean;
 }
 
@@ -21,8 +34,22 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     checkAuthStatus();
   }, []);
 
+  // Any 401 or an expired token sends the user back to login; offline changes stay queued
+  useEffect(() => {
+    return authService.onSessionExpired(() => {
+      taskStore.clear();
+      projectStore.clear();
+      appLockService.clear();
+      setUser(null);
+      Alert.alert(t('session.expiredTitle'), t('session.expiredMessage'));
+    });
+  }, []);
+
   const checkAuthStatus = async () => {
     try {
+      // Bring stored data up to the current schema before anything reads it
+      await storageService.ready();
+
       const isAuth = await authService.isAuthenticated();
       
       if (isAuth) {
@@ -49,6 +76,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     try {
       setLoading(true);
       const response = await authService.login(credentials);
+      // Drop whatever a previous session left in memory before the new one hydrates
+      taskStore.clear();
+      projectStore.clear();
       setUser(response.user);
       
       try {
@@ -60,7 +90,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       }
       
       try {
-        await taskService.syncOfflineChanges();
+        await networkService.syncNow();
       } catch (syncError) {
         console.warn('Sync failed after login:', syncError);
       }
@@ -72,10 +102,18 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
-  const logout = async () => {
+  const logout = async (options: LogoutOptions = {}) => {
     try {
       setLoading(true);
+      if (options.clearData) {
+        // Must run before the session is gone, the data is namespaced by the signed-in user
+        await taskService.clearUserData();
+        await projectService.clearUserData();
+      }
       await authService.logout();
+      await appLockService.clear();
+      taskStore.clear();
+      projectStore.clear();
       setUser(null);
       await notificationService.cancelAllNotifications();
     } catch (error) {
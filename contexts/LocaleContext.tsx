@@ -0,0 +1,87 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import {
+  formatDate,
+  getDeviceLocale,
+  getLocale,
+  Locale,
+  setLocale,
+  subscribeToLocale,
+  t,
+  tp,
+} from '../i18n';
+import { storageService } from '../services/storageService';
+
+const LANGUAGE_PREFERENCE_KEY = 'language_preference';
+
+// 'system' follows the device language
+export type LanguagePreference = Locale | 'system';
+
+interface LocaleContextType {
+  locale: Locale;
+  preference: LanguagePreference;
+  setPreference: (preference: LanguagePreference) => Promise<void>;
+  t: typeof t;
+  tp: typeof tp;
+  formatDate: typeof formatDate;
+}
+
+const LocaleContext = createContext<LocaleContextType | undefined>(undefined);
+
+export function LocaleProvider({ children }: { children: React.ReactNode }) {
+  const [locale, setLocaleState] = useState<Locale>(getLocale());
+  const [preference, setPreferenceState] = useState<LanguagePreference>('system');
+
+  useEffect(() => {
+    const unsubscribe = subscribeToLocale(setLocaleState);
+
+    const loadPreference = async () => {
+      try {
+        const saved = await storageService.getItem(LANGUAGE_PREFERENCE_KEY);
+        if (saved === 'en' || saved === 'id') {
+          setPreferenceState(saved);
+          setLocale(saved);
+        }
+      } catch (error) {
+        console.error('Error loading language preference:', error);
+      }
+    };
+
+    loadPreference();
+    return unsubscribe;
+  }, []);
+
+  const setPreference = async (next: LanguagePreference) => {
+    setPreferenceState(next);
+    setLocale(next === 'system' ? getDeviceLocale() : next);
+
+    if (next === 'system') {
+      await storageService.removeItem(LANGUAGE_PREFERENCE_KEY);
+    } else {
+      await storageService.setItem(LANGUAGE_PREFERENCE_KEY, next);
+    }
+  };
+
+  // t and friends read the module-level locale; `locale` in the value re-renders consumers on change
+  const value: LocaleContextType = {
+    locale,
+    preference,
+    setPreference,
+    t,
+    tp,
+    formatDate,
+  };
+
+  return (
+    <LocaleContext.Provider value={value}>
+      {children}
+    </LocaleContext.Provider>
+  );
+}
+
+export function useLocale() {
+  const context = useContext(LocaleContext);
+  if (context === undefined) {
+    throw new Error('useLocale must be used within a LocaleProvider');
+  }
+  return context;
+}
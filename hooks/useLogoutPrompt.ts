@@ -0,0 +1,53 @@
+import { Alert } from 'react-native';
+
+import { useAuth } from '@/contexts/AuthContext';
+import { useLocale } from '@/contexts/LocaleContext';
+import { taskService } from '@/services/taskService';
+
+/**
+ * Returns a handler that confirms logout, warning first when changes have not
+ * reached the server and letting the user keep or discard them.
+ */
+export function useLogoutPrompt() {
+  const { logout } = useAuth();
+  const { t, tp } = useLocale();
+
+  const runLogout = async (clearData: boolean) => {
+    try {
+      await logout({ clearData });
+    } catch (error) {
+      Alert.alert(t('common.error'), t('logout.failed'));
+    }
+  };
+
+  return async () => {
+    let unsyncedCount = 0;
+    try {
+      unsyncedCount = await taskService.getUnsyncedActionCount();
+    } catch (error) {
+      console.warn('Could not count unsynced changes:', error);
+    }
+
+    if (unsyncedCount === 0) {
+      Alert.alert(
+        t('logout.title'),
+        t('logout.confirm'),
+        [
+          { text: t('common.cancel'), style: 'cancel' },
+          { text: t('logout.action'), style: 'destructive', onPress: () => runLogout(false) },
+        ]
+      );
+      return;
+    }
+
+    Alert.alert(
+      t('logout.unsyncedTitle'),
+      tp('logout.unsyncedMessage', unsyncedCount),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('logout.discard'), style: 'destructive', onPress: () => runLogout(true) },
+        { text: t('logout.keep'), onPress: () => runLogout(false) },
+      ]
+    );
+  };
+}
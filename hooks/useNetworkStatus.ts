@@ -0,0 +1,14 @@
+import { useEffect, useState } from 'react';
+
+import { networkService, NetworkStatus } from '@/services/networkService';
+
+export function useNetworkStatus(): NetworkStatus {
+  const [status, setStatus] = useState<NetworkStatus>(networkService.getStatus());
+
+  useEffect(() => {
+    setStatus(networkService.getStatus());
+    return networkService.subscribe(setStatus);
+  }, []);
+
+  return status;
+}
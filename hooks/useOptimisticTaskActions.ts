@@ -0,0 +1,124 @@
+import { useRef, useState } from 'react';
+import { Alert } from 'react-native';
+
+import { useAuth } from '@/contexts/AuthContext';
+import { useLocale } from '@/contexts/LocaleContext';
+import { getErrorMessage, TranslationKey } from '@/i18n';
+import { CreateTaskData, Task, taskService, UpdateTaskData, withChecklistCompletion } from '@/services/taskService';
+import { taskStore } from '@/services/taskStore';
+
+/**
+ * Task mutations that show up in the list immediately and roll back with an
+ * inline error on the affected card if the service call fails.
+ */
+export function useOptimisticTaskActions() {
+  const { user } = useAuth();
+  const { t } = useLocale();
+  const [errors, setErrors] = useState<Record<number, string>>({});
+  const nextTempId = useRef(-1);
+
+  const setError = (taskId: number, message?: string) => {
+    setErrors(prev => {
+      const next = { ...prev };
+      if (message) next[taskId] = message;
+      else delete next[taskId];
+      return next;
+    });
+  };
+
+  const run = async (
+    taskId: number,
+    optimisticTask: Task | null,
+    action: () => Promise<unknown>,
+    errorKey: TranslationKey
+  ) => {
+    setError(taskId);
+    taskStore.applyOptimistic(taskId, optimisticTask);
+    try {
+      await action();
+    } catch (error) {
+      console.error('Optimistic task action failed, rolling back:', error);
+      setError(taskId, getErrorMessage(error, errorKey));
+    } finally {
+      taskStore.settleOptimistic(taskId);
+    }
+  };
+
+  const toggleComplete = async (taskId: number, completed: boolean) => {
+    const task = taskStore.getTask(taskId);
+    if (!task) return;
+
+    await run(
+      taskId,
+      { ...task, completed },
+      () => taskService.updateTask(taskId, { completed }),
+      'tasks.updateFailed'
+    );
+  };
+
+  const updateTask = async (taskId: number, changes: UpdateTaskData) => {
+    const task = taskStore.getTask(taskId);
+    if (!task) return;
+
+    const data = withChecklistCompletion(task, changes);
+    const optimisticTask: Task = {
+      ...task,
+      ...data,
+      due_date: data.dueDate ?? task.due_date,
+      dueDate: data.dueDate ? new Date(data.dueDate) : task.dueDate,
+      project_id: data.projectId !== undefined ? data.projectId : task.project_id,
+      auto_complete: data.autoComplete ?? task.auto_complete,
+      repeat_rule: data.repeatRule !== undefined ? data.repeatRule : task.repeat_rule,
+    };
+
+    await run(taskId, optimisticTask, () => taskService.updateTask(taskId, data), 'tasks.saveFailed');
+  };
+
+  const deleteTask = async (taskId: number) => {
+    await run(taskId, null, () => taskService.deleteTask(taskId), 'tasks.deleteFailed');
+  };
+
+  const createTask = async (data: CreateTaskData) => {
+    // Temporary ids count down from -1, far from the service's local ids
+    const tempId = nextTempId.current--;
+    const optimisticTask: Task = {
+      id: tempId,
+      title: data.title,
+      description: data.description || null,
+      priority: data.priority || 'none',
+      tags: data.tags || [],
+      project_id: data.projectId ?? null,
+      checklist: data.checklist || [],
+      auto_complete: !!data.autoComplete,
+      repeat_rule: data.repeatRule || null,
+      completed: false,
+      due_date: data.dueDate || null,
+      dueDate: data.dueDate ? new Date(data.dueDate) : undefined,
+      user: {
+        id: user ? parseInt(user.id) : 0,
+        username: user?.username || '',
+      },
+      userId: user?.id,
+    };
+
+    taskStore.applyOptimistic(tempId, optimisticTask);
+    try {
+      await taskService.createTask(data);
+    } catch (error) {
+      console.error('Optimistic task create failed, rolling back:', error);
+      // The card disappears with the rollback, so there is nowhere to show the error inline
+      Alert.alert(t('common.error'), getErrorMessage(error, 'tasks.createFailed'));
+    } finally {
+      taskStore.settleOptimistic(tempId);
+    }
+  };
+
+  return {
+    errors,
+    dismissError: (taskId: number) => setError(taskId),
+    toggleComplete,
+    updateTask,
+    deleteTask,
+    createTask,
+  };
+}
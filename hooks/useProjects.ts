@@ -0,0 +1,27 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+
+import { Project, projectService } from '@/services/projectService';
+import { projectStore } from '@/services/projectStore';
+
+const subscribe = (listener: () => void) => projectStore.subscribe(listener);
+
+export function useProjects(): Project[] {
+  const projects = useSyncExternalStore(subscribe, () => projectStore.getProjects());
+
+  // Show the cached projects right away, before any network refresh finishes
+  useEffect(() => {
+    if (!projectStore.isHydrated()) {
+      projectService.loadCachedProjects();
+    }
+  }, []);
+
+  return projects;
+}
+
+export function useProject(projectId: number | null | undefined): Project | undefined {
+  const getSnapshot = useCallback(
+    () => (projectId == null ? undefined : projectStore.getProject(projectId)),
+    [projectId]
+  );
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
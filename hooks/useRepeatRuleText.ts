@@ -0,0 +1,63 @@
+import { useLocale } from '@/contexts/LocaleContext';
+import { TranslationKey } from '@/i18n';
+import { parseRepeatRule } from '@/services/recurrence';
+
+// 7 January 2024 was a Sunday, so day n of that week is weekday n
+const weekdayDate = (weekday: number) => new Date(Date.UTC(2024, 0, 7 + weekday));
+
+/**
+ * Localized wording for repeat rules: a one-line summary plus the weekday and
+ * ordinal names the repeat editor builds its options from.
+ */
+export function useRepeatRuleText() {
+  const { t, tp, formatDate } = useLocale();
+
+  const weekdayName = (weekday: number, width: 'long' | 'short' | 'narrow' = 'long') =>
+    formatDate(weekdayDate(weekday), { weekday: width, timeZone: 'UTC' });
+
+  const ordinalName = (n: number) => t((n === -1 ? 'repeat.nth.last' : `repeat.nth.${n}`) as TranslationKey);
+
+  const describeRule = (repeatRule: string | null | undefined): string => {
+    const rule = parseRepeatRule(repeatRule);
+    if (!rule) return t('repeat.frequency.none');
+
+    let text: string;
+    switch (rule.frequency) {
+      case 'daily':
+        text = tp('repeat.describe.daily', rule.interval);
+        break;
+      case 'weekly':
+        text = tp('repeat.describe.weekly', rule.interval, {
+          days: rule.weekdays.map(day => weekdayName(day, 'short')).join(', '),
+        });
+        break;
+      case 'monthly':
+        text = rule.nthWeekday
+          ? tp('repeat.describe.monthlyNth', rule.interval, {
+              nth: ordinalName(rule.nthWeekday.n),
+              weekday: weekdayName(rule.nthWeekday.weekday),
+            })
+          : tp('repeat.describe.monthlyDay', rule.interval, { day: rule.monthDay ?? '' });
+        break;
+      case 'afterCompletion':
+        text = tp('repeat.describe.afterCompletion', rule.interval);
+        break;
+    }
+
+    if (rule.until) {
+      const until = formatDate(new Date(`${rule.until}T00:00:00Z`), {
+        month: 'short',
+        day: 'numeric',
+        year: 'numeric',
+        timeZone: 'UTC',
+      });
+      text = t('repeat.describe.until', { rule: text, date: until });
+    }
+    if (rule.count) {
+      text = tp('repeat.describe.count', rule.count, { rule: text });
+    }
+    return text;
+  };
+
+  return { describeRule, weekdayName, ordinalName };
+}
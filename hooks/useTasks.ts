@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useMemo, useSyncExternalStore } from 'react';
+
+import { Task, taskService } from '@/services/taskService';
+import { taskStore } from '@/services/taskStore';
+
+const subscribe = (listener: () => void) => taskStore.subscribe(listener);
+
+export function useTasks(): Task[] {
+  const tasks = useSyncExternalStore(subscribe, () => taskStore.getTasks());
+
+  // Show the cached tasks right away, before any network refresh finishes
+  useEffect(() => {
+    if (!taskStore.isHydrated()) {
+      taskService.loadCachedTasks();
+    }
+  }, []);
+
+  return tasks;
+}
+
+export function useTask(taskId: number): Task | undefined {
+  const getSnapshot = useCallback(() => taskStore.getTask(taskId), [taskId]);
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
+
+// Every tag in use, sorted case-insensitively, for suggestions and filters
+export function useAllTags(): string[] {
+  const tasks = useTasks();
+
+  return useMemo(() => {
+    const tags = new Map<string, string>();
+    tasks.forEach(task => {
+      task.tags?.forEach(tag => {
+        if (!tags.has(tag.toLowerCase())) tags.set(tag.toLowerCase(), tag);
+      });
+    });
+    return Array.from(tags.values()).sort((a, b) => a.localeCompare(b, undefined, { sensitivity: 'base' }));
+  }, [tasks]);
+}
@@ -0,0 +1,291 @@
+// English is the reference catalog; every other language must provide the same keys
+export const en = {
+  'common.cancel': 'Cancel',
+  'common.delete': 'Delete',
+  'common.error': 'Error',
+  'common.success': 'Success',
+  'common.save': 'Save',
+  'common.saving': 'Saving...',
+  'common.none': 'None',
+
+  'errors.network': 'Network connection failed. Please check your internet connection.',
+  'errors.server': 'Server response error. Please try again.',
+  'errors.unknown': 'Unknown error',
+
+  'tabs.tasks': 'Tasks',
+  'tabs.settings': 'Settings',
+
+  'login.title': 'Task Manager',
+  'login.subtitle': 'Sign in to continue',
+  'login.username': 'Username',
+  'login.password': 'Password',
+  'login.usernamePlaceholder': 'Enter your username',
+  'login.passwordPlaceholder': 'Enter your password',
+  'login.signIn': 'Sign In',
+  'login.signingIn': 'Signing In...',
+  'login.server': 'Server',
+  'login.demoCredentials': 'Demo Credentials:',
+  'login.demoUsername': 'Username: {username}',
+  'login.demoPassword': 'Password: {password}',
+  'login.fillAllFields': 'Please fill in all fields',
+  'login.failedTitle': 'Login Failed',
+  'login.invalidCredentials': 'Invalid username or password',
+
+  'tasks.greeting': 'Hello, {name}!',
+  'tasks.stats.upcoming': 'Upcoming',
+  'tasks.stats.past': 'Past',
+  'tasks.stats.total': 'Total',
+  'tasks.filter.all': 'All',
+  'tasks.filter.upcoming': 'Upcoming',
+  'tasks.filter.past': 'Past',
+  'tasks.filter.clearTag': 'All tags',
+  'tasks.offlineBanner': 'You have offline changes. Tap to sync.',
+  'tasks.empty.all.title': 'No tasks yet',
+  'tasks.empty.all.subtitle': 'Tap the + button to create your first task',
+  'tasks.empty.upcoming.title': 'No upcoming tasks',
+  'tasks.empty.upcoming.subtitle': "No upcoming tasks. You're all caught up!",
+  'tasks.empty.past.title': 'No past tasks',
+  'tasks.empty.past.subtitle': 'No past due tasks. Great job staying on top of things!',
+  'tasks.loadFailed': 'Failed to load tasks. Please try again.',
+  'tasks.syncSucceeded': 'All changes have been synchronized.',
+  'tasks.syncFailed': 'Failed to sync changes. Please try again.',
+  'tasks.syncOffline': 'Your changes will sync once you are back online.',
+  'tasks.syncFailedChanges_one': '1 change could not be synced. You can retry or discard it under Failed Sync in Settings.',
+  'tasks.syncFailedChanges_other': '{count} changes could not be synced. You can retry or discard them under Failed Sync in Settings.',
+  'tasks.syncPendingTitle': 'Still Syncing',
+  'tasks.syncPending_one': '1 change is still waiting to sync and will be retried shortly.',
+  'tasks.syncPending_other': '{count} changes are still waiting to sync and will be retried shortly.',
+  'tasks.createFailed': 'Failed to create task. Please try again.',
+  'tasks.updateFailed': 'Could not update this task.',
+  'tasks.saveFailed': 'Could not save your changes.',
+  'tasks.deleteFailed': 'Could not delete this task.',
+
+  'taskCard.noDueDate': 'No due date',
+  'taskCard.today': 'Today',
+  'taskCard.status.upcoming': 'UPCOMING',
+  'taskCard.status.past': 'PAST',
+  'taskCard.offline': 'Offline',
+  'taskCard.deleteTitle': 'Delete Task',
+  'taskCard.deleteMessage': 'Are you sure you want to delete this task?',
+
+  'taskForm.newTitle': 'New Task',
+  'taskForm.editTitle': 'Edit Task',
+  'taskForm.title': 'Title *',
+  'taskForm.titlePlaceholder': 'Enter task title',
+  'taskForm.description': 'Notes',
+  'taskForm.descriptionPlaceholder': 'Add details. Supports **bold**, - lists and [links](https://...)',
+  'taskForm.priority': 'Priority',
+  'taskForm.tags': 'Tags',
+  'taskForm.tagsPlaceholder': 'Add a tag and press return',
+  'taskForm.project': 'Project',
+  'taskForm.checklist': 'Checklist',
+  'taskForm.checklistPlaceholder': 'Add a step',
+  'taskForm.autoComplete': 'Complete the task when every item is checked',
+  'taskForm.repeat': 'Repeat',
+  'taskForm.dueDate': 'Due Date',
+  'taskForm.create': 'Create',
+  'taskForm.update': 'Update',
+  'taskForm.titleRequired': 'Please enter a task title',
+  'taskForm.saveFailed': 'Failed to save task. Please try again.',
+
+  'taskDetail.title': 'Task Details',
+  'taskDetail.notes': 'Notes',
+  'taskDetail.noNotes': 'No notes yet. Tap edit to add some.',
+  'taskDetail.checklist': 'Checklist',
+  'taskDetail.notFound': 'This task no longer exists.',
+  'taskDetail.completed': 'Completed',
+
+  'priority.none': 'None',
+  'priority.low': 'Low',
+  'priority.medium': 'Medium',
+  'priority.high': 'High',
+  'priority.urgent': 'Urgent',
+
+  'projects.all': 'All',
+  'projects.inbox': 'Inbox',
+  'projects.new': 'New Project',
+  'projects.edit': 'Edit Project',
+  'projects.name': 'Name',
+  'projects.namePlaceholder': 'e.g. Work, Home, Errands',
+  'projects.color': 'Colour',
+  'projects.icon': 'Icon',
+  'projects.nameRequired': 'Please enter a project name',
+  'projects.saveFailed': 'Failed to save the project. Please try again.',
+  'projects.deleteTitle': 'Delete Project',
+  'projects.deleteMessage': 'Tasks in "{name}" will move to the Inbox.',
+  'projects.deleteFailed': 'Failed to delete the project. Please try again.',
+
+  'repeat.frequency.none': 'Never',
+  'repeat.frequency.daily': 'Daily',
+  'repeat.frequency.weekly': 'Weekly',
+  'repeat.frequency.monthly': 'Monthly',
+  'repeat.frequency.afterCompletion': 'After completion',
+  'repeat.every': 'Every',
+  'repeat.unit.day_one': 'day',
+  'repeat.unit.day_other': 'days',
+  'repeat.unit.week_one': 'week',
+  'repeat.unit.week_other': 'weeks',
+  'repeat.unit.month_one': 'month',
+  'repeat.unit.month_other': 'months',
+  'repeat.onDays': 'On',
+  'repeat.monthDay': 'On day {day}',
+  'repeat.monthNth': 'On the {nth} {weekday}',
+  'repeat.nth.1': 'first',
+  'repeat.nth.2': 'second',
+  'repeat.nth.3': 'third',
+  'repeat.nth.4': 'fourth',
+  'repeat.nth.last': 'last',
+  'repeat.ends': 'Ends',
+  'repeat.ends.never': 'Never',
+  'repeat.ends.until': 'On date',
+  'repeat.ends.count': 'After',
+  'repeat.unit.time_one': 'time',
+  'repeat.unit.time_other': 'times',
+  'repeat.describe.daily_one': 'Every day',
+  'repeat.describe.daily_other': 'Every {count} days',
+  'repeat.describe.weekly_one': 'Every week on {days}',
+  'repeat.describe.weekly_other': 'Every {count} weeks on {days}',
+  'repeat.describe.monthlyDay_one': 'Every month on day {day}',
+  'repeat.describe.monthlyDay_other': 'Every {count} months on day {day}',
+  'repeat.describe.monthlyNth_one': 'Every month on the {nth} {weekday}',
+  'repeat.describe.monthlyNth_other': 'Every {count} months on the {nth} {weekday}',
+  'repeat.describe.afterCompletion_one': '1 day after completion',
+  'repeat.describe.afterCompletion_other': '{count} days after completion',
+  'repeat.describe.until': '{rule}, until {date}',
+  'repeat.describe.count_one': '{rule}, 1 occurrence left',
+  'repeat.describe.count_other': '{rule}, {count} occurrences left',
+
+  'network.online': 'Online',
+  'network.offline': 'Offline',
+  'network.syncing': 'Syncing',
+
+  'logout.title': 'Logout',
+  'logout.confirm': 'Are you sure you want to logout?',
+  'logout.action': 'Logout',
+  'logout.failed': 'Failed to logout. Please try again.',
+  'logout.unsyncedTitle': 'Unsynced Changes',
+  'logout.unsyncedMessage_one':
+    'You have 1 change that has not been synced. Keep it on this device to sync the next time you sign in to this account, or discard it.',
+  'logout.unsyncedMessage_other':
+    'You have {count} changes that have not been synced. Keep them on this device to sync the next time you sign in to this account, or discard them.',
+  'logout.discard': 'Discard & Logout',
+  'logout.keep': 'Keep & Logout',
+
+  'session.expiredTitle': 'Session expired',
+  'session.expiredMessage': 'Please log in again to continue syncing your tasks.',
+
+  'settings.title': 'Settings',
+  'settings.account': 'Account',
+  'settings.unknownUser': 'Unknown User',
+  'settings.language': 'Language',
+  'settings.languageSystem': 'Device ({language})',
+  'settings.server': 'Server',
+  'settings.switchServerTitle': 'Switch Server',
+  'settings.switchServerMessage':
+    'You will be signed out and need to log in to {url}. Unsynced changes stay on this device.',
+  'settings.switchServerAction': 'Switch',
+
+  'language.en': 'English',
+  'language.id': 'Bahasa Indonesia',
+
+  'conflicts.title': 'Sync Conflicts ({count})',
+  'conflicts.field.title': 'Title',
+  'conflicts.field.description': 'Notes',
+  'conflicts.field.priority': 'Priority',
+  'conflicts.field.tags': 'Tags',
+  'conflicts.field.projectId': 'Project',
+  'conflicts.field.checklist': 'Checklist',
+  'conflicts.field.autoComplete': 'Auto-complete',
+  'conflicts.field.repeatRule': 'Repeat',
+  'conflicts.field.completed': 'Completed',
+  'conflicts.field.dueDate': 'Due date',
+  'conflicts.done': 'Done',
+  'conflicts.notDone': 'Not done',
+  'conflicts.checklistProgress': '{done} of {total} checked',
+  'conflicts.on': 'On',
+  'conflicts.off': 'Off',
+  'conflicts.mine': 'Mine',
+  'conflicts.server': 'Server',
+  'conflicts.resolveFailed': 'Failed to resolve the conflict. Please try again.',
+  'conflicts.hint': 'Tap the value to keep. The checked value is what was saved automatically.',
+
+  'failedSync.title': 'Failed Sync ({count})',
+  'failedSync.attempts_one': '1 attempt',
+  'failedSync.attempts_other': '{count} attempts',
+  'failedSync.action.create': 'Create',
+  'failedSync.action.update': 'Update',
+  'failedSync.action.delete': 'Delete',
+  'failedSync.describeTitled': '{action} "{title}"',
+  'failedSync.describeTask': '{action} task #{id}',
+  'failedSync.describeProject': '{action} project "{name}"',
+  'failedSync.retryFailed': 'Failed to retry the change. Please try again.',
+  'failedSync.discardTitle': 'Discard Change',
+  'failedSync.discardMessage': 'This change will never reach the server. Are you sure?',
+  'failedSync.discard': 'Discard',
+
+  'appLock.title': 'App Lock',
+  'appLock.requirePin': 'Require PIN',
+  'appLock.newPin': 'New {length}-digit PIN',
+  'appLock.confirmPin': 'Confirm PIN',
+  'appLock.savePin': 'Save PIN',
+  'appLock.changePin': 'Change PIN',
+  'appLock.biometrics': 'Unlock with biometrics',
+  'appLock.lockAfter': 'Lock after leaving the app',
+  'appLock.immediately': 'Immediately',
+  'appLock.minutes': '{count} min',
+  'appLock.pinLength': 'Your PIN must be {length} digits',
+  'appLock.pinMismatch': 'The PINs do not match',
+  'appLock.saveFailed': 'Failed to save your PIN. Please try again.',
+  'appLock.disableTitle': 'Turn Off App Lock',
+  'appLock.disableMessage': 'Anyone with your phone will be able to open your tasks. Continue?',
+  'appLock.disableAction': 'Turn Off',
+  'appLock.locked': 'Task Manager is locked',
+  'appLock.enterPin': 'Enter your PIN',
+  'appLock.enterPinAs': 'Enter your PIN to continue as {name}',
+  'appLock.wrongPin_one': 'Wrong PIN. 1 attempt left.',
+  'appLock.wrongPin_other': 'Wrong PIN. {count} attempts left.',
+  'appLock.verifyFailed': 'Could not verify your PIN. Please try again.',
+  'appLock.logoutInstead': 'Log out instead',
+  'appLock.biometricPrompt': 'Unlock Task Manager',
+  'appLock.usePin': 'Use PIN',
+  'appLock.lockedOutTitle': 'Too many attempts',
+  'appLock.lockedOutMessage': 'For your security you have been logged out. Please log in again.',
+
+  'server.custom': 'Custom',
+  'server.customServer': 'Custom server',
+  'server.change': 'Change',
+  'server.checkAndSave': 'Check & Save',
+  'server.invalidUrl': 'Enter a full URL starting with http:// or https://',
+  'server.healthFailed': 'Server health check failed',
+  'server.healthStatus': 'Server responded with status {status}',
+  'server.timeout': 'Server did not respond in time',
+  'server.unreachable': 'Could not reach the server',
+  'server.saveFailed': 'Failed to save the server. Please try again.',
+
+  'mock.title': 'Demo Server',
+  'mock.latency': 'Response latency',
+  'mock.latencyNone': 'None',
+  'mock.serverErrors': 'Server errors (503)',
+  'mock.networkFailures': 'Network failures',
+  'mock.sessionLength': 'Session length (next login)',
+  'mock.minutes': '{count} min',
+  'mock.hours_one': '1 hour',
+  'mock.hours_other': '{count} hours',
+  'mock.days_one': '1 day',
+  'mock.days_other': '{count} days',
+  'mock.reset': 'Reset demo data',
+  'mock.resetTitle': 'Reset Demo Data',
+  'mock.resetMessage': 'Replace every task on the mock server with the original demo tasks?',
+  'mock.resetAction': 'Reset',
+
+  'notifications.channelName': 'Task Manager',
+  'notifications.channelDescription': 'Notifications for task management',
+  'notifications.dueTitle_one': '📅 Task Due Today!',
+  'notifications.dueTitle_other': '📅 {count} Tasks Due Today!',
+  'notifications.dueBodySingle': '"{title}" is due today',
+  'notifications.dueBodyMultiple': 'You have {count} tasks due today.',
+  'notifications.dailyTitle': '🌅 Good Morning!',
+  'notifications.dailyBody': "Don't forget to check your tasks for today!",
+};
+
+export type TranslationKey = keyof typeof en;
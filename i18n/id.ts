@@ -0,0 +1,290 @@
+import { TranslationKey } from './en';
+
+export const id: Record<TranslationKey, string> = {
+  'common.cancel': 'Batal',
+  'common.delete': 'Hapus',
+  'common.error': 'Kesalahan',
+  'common.success': 'Berhasil',
+  'common.save': 'Simpan',
+  'common.saving': 'Menyimpan...',
+  'common.none': 'Tidak ada',
+
+  'errors.network': 'Koneksi jaringan gagal. Periksa koneksi internet Anda.',
+  'errors.server': 'Terjadi kesalahan respons server. Silakan coba lagi.',
+  'errors.unknown': 'Kesalahan tidak diketahui',
+
+  'tabs.tasks': 'Tugas',
+  'tabs.settings': 'Pengaturan',
+
+  'login.title': 'Task Manager',
+  'login.subtitle': 'Masuk untuk melanjutkan',
+  'login.username': 'Nama pengguna',
+  'login.password': 'Kata sandi',
+  'login.usernamePlaceholder': 'Masukkan nama pengguna',
+  'login.passwordPlaceholder': 'Masukkan kata sandi',
+  'login.signIn': 'Masuk',
+  'login.signingIn': 'Sedang masuk...',
+  'login.server': 'Server',
+  'login.demoCredentials': 'Akun Demo:',
+  'login.demoUsername': 'Nama pengguna: {username}',
+  'login.demoPassword': 'Kata sandi: {password}',
+  'login.fillAllFields': 'Harap isi semua kolom',
+  'login.failedTitle': 'Gagal Masuk',
+  'login.invalidCredentials': 'Nama pengguna atau kata sandi salah',
+
+  'tasks.greeting': 'Halo, {name}!',
+  'tasks.stats.upcoming': 'Mendatang',
+  'tasks.stats.past': 'Terlewat',
+  'tasks.stats.total': 'Total',
+  'tasks.filter.all': 'Semua',
+  'tasks.filter.upcoming': 'Mendatang',
+  'tasks.filter.past': 'Terlewat',
+  'tasks.filter.clearTag': 'Semua label',
+  'tasks.offlineBanner': 'Ada perubahan offline. Ketuk untuk sinkronisasi.',
+  'tasks.empty.all.title': 'Belum ada tugas',
+  'tasks.empty.all.subtitle': 'Ketuk tombol + untuk membuat tugas pertama Anda',
+  'tasks.empty.upcoming.title': 'Tidak ada tugas mendatang',
+  'tasks.empty.upcoming.subtitle': 'Tidak ada tugas mendatang. Semua sudah beres!',
+  'tasks.empty.past.title': 'Tidak ada tugas terlewat',
+  'tasks.empty.past.subtitle': 'Tidak ada tugas yang lewat tenggat. Kerja bagus!',
+  'tasks.loadFailed': 'Gagal memuat tugas. Silakan coba lagi.',
+  'tasks.syncSucceeded': 'Semua perubahan sudah disinkronkan.',
+  'tasks.syncFailed': 'Gagal menyinkronkan perubahan. Silakan coba lagi.',
+  'tasks.syncOffline': 'Perubahan Anda akan disinkronkan setelah kembali online.',
+  'tasks.syncFailedChanges_one': '1 perubahan gagal disinkronkan. Anda dapat mengulang atau membuangnya di Sinkronisasi Gagal pada Pengaturan.',
+  'tasks.syncFailedChanges_other': '{count} perubahan gagal disinkronkan. Anda dapat mengulang atau membuangnya di Sinkronisasi Gagal pada Pengaturan.',
+  'tasks.syncPendingTitle': 'Masih Menyinkronkan',
+  'tasks.syncPending_one': '1 perubahan masih menunggu untuk disinkronkan dan akan segera dicoba lagi.',
+  'tasks.syncPending_other': '{count} perubahan masih menunggu untuk disinkronkan dan akan segera dicoba lagi.',
+  'tasks.createFailed': 'Gagal membuat tugas. Silakan coba lagi.',
+  'tasks.updateFailed': 'Tugas ini tidak dapat diperbarui.',
+  'tasks.saveFailed': 'Perubahan Anda tidak dapat disimpan.',
+  'tasks.deleteFailed': 'Tugas ini tidak dapat dihapus.',
+
+  'taskCard.noDueDate': 'Tanpa tenggat',
+  'taskCard.today': 'Hari ini',
+  'taskCard.status.upcoming': 'MENDATANG',
+  'taskCard.status.past': 'TERLEWAT',
+  'taskCard.offline': 'Offline',
+  'taskCard.deleteTitle': 'Hapus Tugas',
+  'taskCard.deleteMessage': 'Apakah Anda yakin ingin menghapus tugas ini?',
+
+  'taskForm.newTitle': 'Tugas Baru',
+  'taskForm.editTitle': 'Ubah Tugas',
+  'taskForm.title': 'Judul *',
+  'taskForm.titlePlaceholder': 'Masukkan judul tugas',
+  'taskForm.description': 'Catatan',
+  'taskForm.descriptionPlaceholder': 'Tambahkan detail. Mendukung **tebal**, - daftar dan [tautan](https://...)',
+  'taskForm.priority': 'Prioritas',
+  'taskForm.tags': 'Label',
+  'taskForm.tagsPlaceholder': 'Tambahkan label lalu tekan enter',
+  'taskForm.project': 'Proyek',
+  'taskForm.checklist': 'Daftar Periksa',
+  'taskForm.checklistPlaceholder': 'Tambah langkah',
+  'taskForm.autoComplete': 'Selesaikan tugas saat semua item dicentang',
+  'taskForm.repeat': 'Ulangi',
+  'taskForm.dueDate': 'Tenggat',
+  'taskForm.create': 'Buat',
+  'taskForm.update': 'Perbarui',
+  'taskForm.titleRequired': 'Harap masukkan judul tugas',
+  'taskForm.saveFailed': 'Gagal menyimpan tugas. Silakan coba lagi.',
+
+  'taskDetail.title': 'Detail Tugas',
+  'taskDetail.notes': 'Catatan',
+  'taskDetail.noNotes': 'Belum ada catatan. Ketuk ubah untuk menambahkan.',
+  'taskDetail.checklist': 'Daftar Periksa',
+  'taskDetail.notFound': 'Tugas ini sudah tidak ada.',
+  'taskDetail.completed': 'Selesai',
+
+  'priority.none': 'Tidak ada',
+  'priority.low': 'Rendah',
+  'priority.medium': 'Sedang',
+  'priority.high': 'Tinggi',
+  'priority.urgent': 'Mendesak',
+
+  'projects.all': 'Semua',
+  'projects.inbox': 'Kotak Masuk',
+  'projects.new': 'Proyek Baru',
+  'projects.edit': 'Ubah Proyek',
+  'projects.name': 'Nama',
+  'projects.namePlaceholder': 'mis. Kantor, Rumah, Belanja',
+  'projects.color': 'Warna',
+  'projects.icon': 'Ikon',
+  'projects.nameRequired': 'Harap masukkan nama proyek',
+  'projects.saveFailed': 'Gagal menyimpan proyek. Silakan coba lagi.',
+  'projects.deleteTitle': 'Hapus Proyek',
+  'projects.deleteMessage': 'Tugas di "{name}" akan dipindahkan ke Kotak Masuk.',
+  'projects.deleteFailed': 'Gagal menghapus proyek. Silakan coba lagi.',
+
+  'repeat.frequency.none': 'Tidak',
+  'repeat.frequency.daily': 'Harian',
+  'repeat.frequency.weekly': 'Mingguan',
+  'repeat.frequency.monthly': 'Bulanan',
+  'repeat.frequency.afterCompletion': 'Setelah selesai',
+  'repeat.every': 'Setiap',
+  'repeat.unit.day_one': 'hari',
+  'repeat.unit.day_other': 'hari',
+  'repeat.unit.week_one': 'minggu',
+  'repeat.unit.week_other': 'minggu',
+  'repeat.unit.month_one': 'bulan',
+  'repeat.unit.month_other': 'bulan',
+  'repeat.onDays': 'Pada',
+  'repeat.monthDay': 'Tanggal {day}',
+  'repeat.monthNth': '{weekday} {nth}',
+  'repeat.nth.1': 'pertama',
+  'repeat.nth.2': 'kedua',
+  'repeat.nth.3': 'ketiga',
+  'repeat.nth.4': 'keempat',
+  'repeat.nth.last': 'terakhir',
+  'repeat.ends': 'Berakhir',
+  'repeat.ends.never': 'Tidak pernah',
+  'repeat.ends.until': 'Pada tanggal',
+  'repeat.ends.count': 'Setelah',
+  'repeat.unit.time_one': 'kali',
+  'repeat.unit.time_other': 'kali',
+  'repeat.describe.daily_one': 'Setiap hari',
+  'repeat.describe.daily_other': 'Setiap {count} hari',
+  'repeat.describe.weekly_one': 'Setiap minggu pada {days}',
+  'repeat.describe.weekly_other': 'Setiap {count} minggu pada {days}',
+  'repeat.describe.monthlyDay_one': 'Setiap bulan pada tanggal {day}',
+  'repeat.describe.monthlyDay_other': 'Setiap {count} bulan pada tanggal {day}',
+  'repeat.describe.monthlyNth_one': 'Setiap bulan pada {weekday} {nth}',
+  'repeat.describe.monthlyNth_other': 'Setiap {count} bulan pada {weekday} {nth}',
+  'repeat.describe.afterCompletion_one': '1 hari setelah selesai',
+  'repeat.describe.afterCompletion_other': '{count} hari setelah selesai',
+  'repeat.describe.until': '{rule}, sampai {date}',
+  'repeat.describe.count_one': '{rule}, tersisa 1 kali',
+  'repeat.describe.count_other': '{rule}, tersisa {count} kali',
+
+  'network.online': 'Online',
+  'network.offline': 'Offline',
+  'network.syncing': 'Sinkronisasi',
+
+  'logout.title': 'Keluar',
+  'logout.confirm': 'Apakah Anda yakin ingin keluar?',
+  'logout.action': 'Keluar',
+  'logout.failed': 'Gagal keluar. Silakan coba lagi.',
+  'logout.unsyncedTitle': 'Perubahan Belum Tersinkron',
+  'logout.unsyncedMessage_one':
+    'Ada 1 perubahan yang belum disinkronkan. Simpan di perangkat ini untuk disinkronkan saat Anda masuk lagi ke akun ini, atau buang.',
+  'logout.unsyncedMessage_other':
+    'Ada {count} perubahan yang belum disinkronkan. Simpan di perangkat ini untuk disinkronkan saat Anda masuk lagi ke akun ini, atau buang.',
+  'logout.discard': 'Buang & Keluar',
+  'logout.keep': 'Simpan & Keluar',
+
+  'session.expiredTitle': 'Sesi berakhir',
+  'session.expiredMessage': 'Silakan masuk lagi untuk melanjutkan sinkronisasi tugas Anda.',
+
+  'settings.title': 'Pengaturan',
+  'settings.account': 'Akun',
+  'settings.unknownUser': 'Pengguna Tidak Dikenal',
+  'settings.language': 'Bahasa',
+  'settings.languageSystem': 'Perangkat ({language})',
+  'settings.server': 'Server',
+  'settings.switchServerTitle': 'Ganti Server',
+  'settings.switchServerMessage':
+    'Anda akan dikeluarkan dan perlu masuk ke {url}. Perubahan yang belum tersinkron tetap tersimpan di perangkat ini.',
+  'settings.switchServerAction': 'Ganti',
+
+  'language.en': 'English',
+  'language.id': 'Bahasa Indonesia',
+
+  'conflicts.title': 'Konflik Sinkronisasi ({count})',
+  'conflicts.field.title': 'Judul',
+  'conflicts.field.description': 'Catatan',
+  'conflicts.field.priority': 'Prioritas',
+  'conflicts.field.tags': 'Label',
+  'conflicts.field.projectId': 'Proyek',
+  'conflicts.field.checklist': 'Daftar periksa',
+  'conflicts.field.autoComplete': 'Selesai otomatis',
+  'conflicts.field.repeatRule': 'Pengulangan',
+  'conflicts.field.completed': 'Selesai',
+  'conflicts.field.dueDate': 'Tenggat',
+  'conflicts.done': 'Selesai',
+  'conflicts.notDone': 'Belum selesai',
+  'conflicts.checklistProgress': '{done} dari {total} dicentang',
+  'conflicts.on': 'Aktif',
+  'conflicts.off': 'Nonaktif',
+  'conflicts.mine': 'Milik saya',
+  'conflicts.server': 'Server',
+  'conflicts.resolveFailed': 'Gagal menyelesaikan konflik. Silakan coba lagi.',
+  'conflicts.hint': 'Ketuk nilai yang ingin dipertahankan. Nilai yang dicentang adalah yang tersimpan otomatis.',
+
+  'failedSync.title': 'Sinkronisasi Gagal ({count})',
+  'failedSync.attempts_one': '1 percobaan',
+  'failedSync.attempts_other': '{count} percobaan',
+  'failedSync.action.create': 'Buat',
+  'failedSync.action.update': 'Perbarui',
+  'failedSync.action.delete': 'Hapus',
+  'failedSync.describeTitled': '{action} "{title}"',
+  'failedSync.describeTask': '{action} tugas #{id}',
+  'failedSync.describeProject': '{action} proyek "{name}"',
+  'failedSync.retryFailed': 'Gagal mengulang perubahan. Silakan coba lagi.',
+  'failedSync.discardTitle': 'Buang Perubahan',
+  'failedSync.discardMessage': 'Perubahan ini tidak akan pernah sampai ke server. Anda yakin?',
+  'failedSync.discard': 'Buang',
+
+  'appLock.title': 'Kunci Aplikasi',
+  'appLock.requirePin': 'Wajibkan PIN',
+  'appLock.newPin': 'PIN baru {length} digit',
+  'appLock.confirmPin': 'Konfirmasi PIN',
+  'appLock.savePin': 'Simpan PIN',
+  'appLock.changePin': 'Ubah PIN',
+  'appLock.biometrics': 'Buka dengan biometrik',
+  'appLock.lockAfter': 'Kunci setelah meninggalkan aplikasi',
+  'appLock.immediately': 'Segera',
+  'appLock.minutes': '{count} mnt',
+  'appLock.pinLength': 'PIN harus {length} digit',
+  'appLock.pinMismatch': 'PIN tidak cocok',
+  'appLock.saveFailed': 'Gagal menyimpan PIN. Silakan coba lagi.',
+  'appLock.disableTitle': 'Matikan Kunci Aplikasi',
+  'appLock.disableMessage': 'Siapa pun yang memegang ponsel Anda dapat membuka tugas Anda. Lanjutkan?',
+  'appLock.disableAction': 'Matikan',
+  'appLock.locked': 'Task Manager terkunci',
+  'appLock.enterPin': 'Masukkan PIN Anda',
+  'appLock.enterPinAs': 'Masukkan PIN untuk melanjutkan sebagai {name}',
+  'appLock.wrongPin_one': 'PIN salah. Sisa 1 percobaan.',
+  'appLock.wrongPin_other': 'PIN salah. Sisa {count} percobaan.',
+  'appLock.verifyFailed': 'PIN tidak dapat diverifikasi. Silakan coba lagi.',
+  'appLock.logoutInstead': 'Keluar saja',
+  'appLock.biometricPrompt': 'Buka Task Manager',
+  'appLock.usePin': 'Gunakan PIN',
+  'appLock.lockedOutTitle': 'Terlalu banyak percobaan',
+  'appLock.lockedOutMessage': 'Demi keamanan, Anda telah dikeluarkan. Silakan masuk lagi.',
+
+  'server.custom': 'Kustom',
+  'server.customServer': 'Server kustom',
+  'server.change': 'Ganti',
+  'server.checkAndSave': 'Periksa & Simpan',
+  'server.invalidUrl': 'Masukkan URL lengkap yang diawali http:// atau https://',
+  'server.healthFailed': 'Pemeriksaan kesehatan server gagal',
+  'server.healthStatus': 'Server merespons dengan status {status}',
+  'server.timeout': 'Server tidak merespons tepat waktu',
+  'server.unreachable': 'Server tidak dapat dijangkau',
+  'server.saveFailed': 'Gagal menyimpan server. Silakan coba lagi.',
+
+  'mock.title': 'Server Demo',
+  'mock.latency': 'Latensi respons',
+  'mock.latencyNone': 'Tidak ada',
+  'mock.serverErrors': 'Kesalahan server (503)',
+  'mock.networkFailures': 'Kegagalan jaringan',
+  'mock.sessionLength': 'Durasi sesi (login berikutnya)',
+  'mock.minutes': '{count} mnt',
+  'mock.hours_one': '1 jam',
+  'mock.hours_other': '{count} jam',
+  'mock.days_one': '1 hari',
+  'mock.days_other': '{count} hari',
+  'mock.reset': 'Atur ulang data demo',
+  'mock.resetTitle': 'Atur Ulang Data Demo',
+  'mock.resetMessage': 'Ganti semua tugas di server tiruan dengan tugas demo awal?',
+  'mock.resetAction': 'Atur Ulang',
+
+  'notifications.channelName': 'Task Manager',
+  'notifications.channelDescription': 'Notifikasi untuk pengelolaan tugas',
+  'notifications.dueTitle_one': '📅 Tugas Jatuh Tempo Hari Ini!',
+  'notifications.dueTitle_other': '📅 {count} Tugas Jatuh Tempo Hari Ini!',
+  'notifications.dueBodySingle': '"{title}" jatuh tempo hari ini',
+  'notifications.dueBodyMultiple': 'Anda memiliki {count} tugas yang jatuh tempo hari ini.',
+  'notifications.dailyTitle': '🌅 Selamat Pagi!',
+  'notifications.dailyBody': 'Jangan lupa periksa tugas Anda hari ini!',
+};
@@ -0,0 +1,89 @@
+import { getLocales } from 'expo-localization';
+import { ApiError, NetworkError, type ApiMessage } from '../services/apiErrors';
+import { en, TranslationKey } from './en';
+import { id } from './id';
+
+export type { TranslationKey } from './en';
+
+export type Locale = 'en' | 'id';
+
+export const SUPPORTED_LOCALES: Locale[] = ['en', 'id'];
+
+const CATALOGS: Record<Locale, Record<TranslationKey, string>> = { en, id };
+
+// BCP 47 tags for Intl date formatting
+const DATE_LOCALES: Record<Locale, string> = {
+  en: 'en-US',
+  id: 'id-ID',
+};
+
+// Keys that come in `_one`/`_other` pairs, looked up with tp()
+type PluralKey = {
+  [K in TranslationKey]: K extends `${infer Base}_one` ? Base : never;
+}[TranslationKey];
+
+type TranslationParams = Record<string, string | number>;
+type LocaleListener = (locale: Locale) => void;
+
+let currentLocale: Locale = getDeviceLocale();
+const listeners = new Set<LocaleListener>();
+
+export function getDeviceLocale(): Locale {
+  try {
+    const languageCode = getLocales()[0]?.languageCode;
+    return SUPPORTED_LOCALES.find(locale => locale === languageCode) ?? 'en';
+  } catch {
+    return 'en';
+  }
+}
+
+export function getLocale(): Locale {
+  return currentLocale;
+}
+
+export function setLocale(locale: Locale): void {
+  if (locale === currentLocale) return;
+  currentLocale = locale;
+  listeners.forEach(listener => listener(locale));
+}
+
+export function subscribeToLocale(listener: LocaleListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Replaces `{name}` placeholders; a missing key falls back to English
+export function t(key: TranslationKey, params?: TranslationParams): string {
+  const template = CATALOGS[currentLocale][key] ?? en[key] ?? key;
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name) =>
+    params[name] !== undefined ? String(params[name]) : match
+  );
+}
+
+export function tp(key: PluralKey, count: number, params?: TranslationParams): string {
+  const suffix = count === 1 ? '_one' : '_other';
+  return t(`${key}${suffix}` as TranslationKey, { count, ...params });
+}
+
+export function formatDate(date: Date, options: Intl.DateTimeFormatOptions): string {
+  return date.toLocaleDateString(DATE_LOCALES[currentLocale], options);
+}
+
+// The server sends every message in both languages
+export function localizeServerMessage(message?: ApiMessage): string | undefined {
+  if (!message) return undefined;
+  return (currentLocale === 'id' ? message.id : message.en) || message.en || message.id;
+}
+
+// What to show the user for a failed request: the server's own message when it sent one
+export function getErrorMessage(error: unknown, fallbackKey: TranslationKey): string {
+  if (error instanceof ApiError) {
+    const serverMessage = localizeServerMessage(error.serverMessage);
+    if (serverMessage) return serverMessage;
+  }
+  if (error instanceof NetworkError) return t('errors.network');
+  return t(fallbackKey);
+}
@@ -0,0 +1,172 @@
+import {
+  ApiMessage,
+  AuthError,
+  errorForStatus,
+  NetworkError,
+  RequestCancelledError,
+  ServerError,
+  TimeoutError,
+} from './apiErrors';
+import { isMockUrl, mockBackend } from './mockBackend';
+import { serverConfigService } from './serverConfigService';
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+// Every backend response is wrapped in this envelope
+export interface ApiEnvelope<T> {
+  status_code: number;
+  message: ApiMessage;
+  data: T;
+}
+
+export interface ApiResult<T> {
+  data: T;
+  message?: ApiMessage;
+  status: number;
+  headers: Headers;
+  // 304 responses carry no body, so data is undefined
+  notModified: boolean;
+}
+
+export interface ApiRequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  body?: unknown;
+  headers?: Record<string, string>;
+  // Send the stored token, true unless stated otherwise
+  auth?: boolean;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+type TokenProvider = () => Promise<string | null>;
+type UnauthorizedHandler = () => void;
+
+class ApiClient {
+  private tokenProvider: TokenProvider = async () => null;
+  private unauthorizedHandler: UnauthorizedHandler = () => {};
+  private activeControllers = new Set<AbortController>();
+
+  // Registered by AuthService, which itself depends on this client
+  setTokenProvider(provider: TokenProvider): void {
+    this.tokenProvider = provider;
+  }
+
+  // Called when an authenticated request comes back 401
+  setUnauthorizedHandler(handler: UnauthorizedHandler): void {
+    this.unauthorizedHandler = handler;
+  }
+
+  // Aborts every request in flight, e.g. when the session ends
+  cancelAll(): void {
+    this.activeControllers.forEach(controller => controller.abort());
+    this.activeControllers.clear();
+  }
+
+  async request<T>(path: string, options: ApiRequestOptions = {}): Promise<ApiResult<T>> {
+    const { method = 'GET', body, auth = true, timeoutMs = DEFAULT_TIMEOUT_MS, signal } = options;
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...options.headers,
+    };
+
+    if (auth) {
+      const token = await this.tokenProvider();
+      if (!token) throw new AuthError('No auth token');
+      headers['Authorization'] = `Bearer ${token}`;
+    }
+
+    await serverConfigService.load();
+    const baseUrl = serverConfigService.getApiBaseUrl();
+    const transport = isMockUrl(baseUrl) ? mockBackend.fetch : fetch;
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const abortFromCaller = () => controller.abort();
+    signal?.addEventListener('abort', abortFromCaller);
+    this.activeControllers.add(controller);
+
+    let response: Response;
+    try {
+      response = await transport(`${baseUrl}${path}`, {
+        method,
+        headers,
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal: controller.signal,
+      });
+    } catch (error) {
+      if (timedOut) throw new TimeoutError(timeoutMs);
+      if (controller.signal.aborted) throw new RequestCancelledError();
+      throw new NetworkError();
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abortFromCaller);
+      this.activeControllers.delete(controller);
+    }
+
+    if (__DEV__) {
+      console.log(`API ${method} ${path} -> ${response.status}`);
+    }
+
+    if (response.status === 304) {
+      return { data: undefined as T, status: 304, headers: response.headers, notModified: true };
+    }
+
+    let envelope: ApiEnvelope<T> | null = null;
+    try {
+      envelope = await response.json();
+    } catch {
+      envelope = null;
+    }
+
+    if (!response.ok) {
+      throw this.failure(response.status, envelope?.message, auth);
+    }
+
+    if (!envelope || typeof envelope.status_code !== 'number') {
+      throw new ServerError('Server response error. Please try again.', response.status);
+    }
+
+    if (envelope.status_code < 200 || envelope.status_code >= 300) {
+      throw this.failure(envelope.status_code, envelope.message, auth);
+    }
+
+    return {
+      data: envelope.data,
+      message: envelope.message,
+      status: response.status,
+      headers: response.headers,
+      notModified: false,
+    };
+  }
+
+  private failure(status: number, message: ApiMessage | undefined, auth: boolean) {
+    // A 401 on login just means bad credentials; anywhere else the session is gone
+    if (status === 401 && auth) {
+      this.unauthorizedHandler();
+    }
+    return errorForStatus(status, message);
+  }
+
+  get<T>(path: string, options: Omit<ApiRequestOptions, 'method' | 'body'> = {}): Promise<ApiResult<T>> {
+    return this.request<T>(path, { ...options, method: 'GET' });
+  }
+
+  post<T>(path: string, body?: unknown, options: Omit<ApiRequestOptions, 'method' | 'body'> = {}): Promise<ApiResult<T>> {
+    return this.request<T>(path, { ...options, method: 'POST', body });
+  }
+
+  put<T>(path: string, body?: unknown, options: Omit<ApiRequestOptions, 'method' | 'body'> = {}): Promise<ApiResult<T>> {
+    return this.request<T>(path, { ...options, method: 'PUT', body });
+  }
+
+  delete<T>(path: string, options: Omit<ApiRequestOptions, 'method' | 'body'> = {}): Promise<ApiResult<T>> {
+    return this.request<T>(path, { ...options, method: 'DELETE' });
+  }
+}
+
+export const apiClient = new ApiClient();
@@ -0,0 +1,80 @@
+export interface ApiMessage {
+  id: string;
+  en: string;
+}
+
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public status?: number,
+    public serverMessage?: ApiMessage
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+
+  // Whether sending the same request again later could succeed
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+// The request never got a response: no connection, DNS failure or timeout
+export class NetworkError extends ApiError {
+  constructor(message = 'Network connection failed. Please check your internet connection.') {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+export class TimeoutError extends NetworkError {
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs}ms`);
+    this.name = 'TimeoutError';
+  }
+}
+
+// Cancelled by the caller, e.g. on logout
+export class RequestCancelledError extends ApiError {
+  constructor() {
+    super('Request was cancelled');
+    this.name = 'RequestCancelledError';
+  }
+}
+
+// 401/403, or no token to send
+export class AuthError extends ApiError {
+  constructor(message = 'Authentication required', status?: number, serverMessage?: ApiMessage) {
+    super(message, status, serverMessage);
+    this.name = 'AuthError';
+  }
+}
+
+// The server rejected the request itself; sending it again will fail the same way
+export class ValidationError extends ApiError {
+  constructor(message: string, status?: number, serverMessage?: ApiMessage) {
+    super(message, status, serverMessage);
+    this.name = 'ValidationError';
+  }
+
+  get retryable(): boolean {
+    return false;
+  }
+}
+
+// 5xx, rate limiting or a response that is not a valid envelope
+export class ServerError extends ApiError {
+  constructor(message: string, status?: number, serverMessage?: ApiMessage) {
+    super(message, status, serverMessage);
+    this.name = 'ServerError';
+  }
+}
+
+export function errorForStatus(status: number, serverMessage?: ApiMessage): ApiError {
+  const message = serverMessage?.en || `Request failed with status ${status}`;
+
+  if (status === 401 || status === 403) return new AuthError(message, status, serverMessage);
+  if (status === 408) return new NetworkError(message);
+  if (status === 429 || status >= 500) return new ServerError(message, status, serverMessage);
+  return new ValidationError(message, status, serverMessage);
+}
@@ -0,0 +1,174 @@
+import * as Crypto from 'expo-crypto';
+import * as LocalAuthentication from 'expo-local-authentication';
+import { t } from '../i18n';
+import { storageService } from './storageService';
+
+const APP_LOCK_SETTINGS_KEY = 'app_lock_settings';
+const APP_LOCK_PIN_KEY = 'app_lock_pin';
+const APP_LOCK_FAILED_ATTEMPTS_KEY = 'app_lock_failed_attempts';
+
+export const MAX_UNLOCK_ATTEMPTS = 5;
+export const PIN_LENGTH = 4;
+export const IDLE_TIMEOUT_OPTIONS_MS = [0, 60 * 1000, 5 * 60 * 1000, 15 * 60 * 1000];
+
+export interface AppLockSettings {
+  enabled: boolean;
+  biometricsEnabled: boolean;
+  // How long the app may sit in the background before it locks
+  idleTimeoutMs: number;
+}
+
+export type UnlockResult =
+  | { status: 'unlocked' }
+  | { status: 'failed'; attemptsLeft: number }
+  | { status: 'locked_out' };
+
+interface StoredPin {
+  salt: string;
+  hash: string;
+}
+
+const DEFAULT_SETTINGS: AppLockSettings = {
+  enabled: false,
+  biometricsEnabled: false,
+  idleTimeoutMs: 60 * 1000,
+};
+
+class AppLockService {
+  private backgroundedAt: number | null = null;
+
+  async getSettings(): Promise<AppLockSettings> {
+    const settings = await storageService.getJSON<Partial<AppLockSettings>>(APP_LOCK_SETTINGS_KEY, {});
+    return { ...DEFAULT_SETTINGS, ...settings };
+  }
+
+  private async saveSettings(settings: AppLockSettings): Promise<void> {
+    await storageService.setJSON(APP_LOCK_SETTINGS_KEY, settings);
+  }
+
+  private async hashPin(pin: string, salt: string): Promise<string> {
+    return Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${salt}:${pin}`);
+  }
+
+  isValidPin(pin: string): boolean {
+    return new RegExp(`^\\d{${PIN_LENGTH}}$`).test(pin);
+  }
+
+  // Setting a PIN turns the lock on; the PIN itself only ever lands in secure storage as a salted hash
+  async setPin(pin: string): Promise<void> {
+    if (!this.isValidPin(pin)) {
+      throw new Error(`PIN must be ${PIN_LENGTH} digits`);
+    }
+
+    const salt = Array.from(Crypto.getRandomBytes(16), byte => byte.toString(16).padStart(2, '0')).join('');
+    const stored: StoredPin = { salt, hash: await this.hashPin(pin, salt) };
+    await storageService.setSecureItem(APP_LOCK_PIN_KEY, JSON.stringify(stored));
+    await storageService.removeItem(APP_LOCK_FAILED_ATTEMPTS_KEY);
+
+    const settings = await this.getSettings();
+    await this.saveSettings({ ...settings, enabled: true });
+  }
+
+  async disable(): Promise<void> {
+    await storageService.removeSecureItem(APP_LOCK_PIN_KEY);
+    await storageService.removeItem(APP_LOCK_FAILED_ATTEMPTS_KEY);
+    const settings = await this.getSettings();
+    await this.saveSettings({ ...settings, enabled: false, biometricsEnabled: false });
+  }
+
+  async setBiometricsEnabled(enabled: boolean): Promise<void> {
+    const settings = await this.getSettings();
+    await this.saveSettings({ ...settings, biometricsEnabled: enabled });
+  }
+
+  async setIdleTimeout(idleTimeoutMs: number): Promise<void> {
+    const settings = await this.getSettings();
+    await this.saveSettings({ ...settings, idleTimeoutMs });
+  }
+
+  async isBiometricsAvailable(): Promise<boolean> {
+    try {
+      const hasHardware = await LocalAuthentication.hasHardwareAsync();
+      return hasHardware && await LocalAuthentication.isEnrolledAsync();
+    } catch (error) {
+      console.warn('Biometric availability check failed:', error);
+      return false;
+    }
+  }
+
+  // Failed attempts are persisted so restarting the app does not reset the count
+  private async getFailedAttempts(): Promise<number> {
+    const value = await storageService.getItem(APP_LOCK_FAILED_ATTEMPTS_KEY);
+    return parseInt(value || '0', 10) || 0;
+  }
+
+  async verifyPin(pin: string): Promise<UnlockResult> {
+    const storedJson = await storageService.getSecureItem(APP_LOCK_PIN_KEY);
+    if (!storedJson) {
+      // Lock is on but the PIN is gone (e.g. keychain reset); only a new login can recover
+      return { status: 'locked_out' };
+    }
+
+    const previousFailures = await this.getFailedAttempts();
+    if (previousFailures >= MAX_UNLOCK_ATTEMPTS) {
+      return { status: 'locked_out' };
+    }
+
+    const stored: StoredPin = JSON.parse(storedJson);
+    if (await this.hashPin(pin, stored.salt) === stored.hash) {
+      await storageService.removeItem(APP_LOCK_FAILED_ATTEMPTS_KEY);
+      return { status: 'unlocked' };
+    }
+
+    const failedAttempts = previousFailures + 1;
+    await storageService.setItem(APP_LOCK_FAILED_ATTEMPTS_KEY, failedAttempts.toString());
+    if (failedAttempts >= MAX_UNLOCK_ATTEMPTS) {
+      return { status: 'locked_out' };
+    }
+
+    return { status: 'failed', attemptsLeft: MAX_UNLOCK_ATTEMPTS - failedAttempts };
+  }
+
+  async unlockWithBiometrics(): Promise<boolean> {
+    try {
+      const result = await LocalAuthentication.authenticateAsync({
+        promptMessage: t('appLock.biometricPrompt'),
+        cancelLabel: t('appLock.usePin'),
+        disableDeviceFallback: true,
+      });
+      if (result.success) {
+        await storageService.removeItem(APP_LOCK_FAILED_ATTEMPTS_KEY);
+      }
+      return result.success;
+    } catch (error) {
+      console.warn('Biometric unlock failed:', error);
+      return false;
+    }
+  }
+
+  markBackgrounded(): void {
+    if (this.backgroundedAt === null) {
+      this.backgroundedAt = Date.now();
+    }
+  }
+
+  // Called when the app becomes active again
+  async shouldLockAfterBackground(): Promise<boolean> {
+    const backgroundedAt = this.backgroundedAt;
+    this.backgroundedAt = null;
+    if (backgroundedAt === null) return false;
+
+    const settings = await this.getSettings();
+    return settings.enabled && Date.now() - backgroundedAt >= settings.idleTimeoutMs;
+  }
+
+  // The lock belongs to the session, so logging out removes it
+  async clear(): Promise<void> {
+    this.backgroundedAt = null;
+    await storageService.removeSecureItem(APP_LOCK_PIN_KEY);
+    await storageService.removeItem(APP_LOCK_FAILED_ATTEMPTS_KEY);
+    await storageService.removeItem(APP_LOCK_SETTINGS_KEY);
+  }
+}
+
+export const appLockService = new AppLockService();
@@ -1,5 +1,9 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { API_BASE_URL, API_CONFIG } from '../config/api';
+import { API_CONFIG } from '../config/api';
+import { ApiEnvelope, apiClient } from './apiClient';
+import { ApiError, ServerError } from './apiErrors';
+import { getIdentityClaims, isTokenExpired } from './jwt';
+import { serverConfigService } from './serverConfigService';
+import { storageService } from './storageService';
 
 const AUTH_TOKEN_KEY = 'auth_token';
 const USER_DATA_KEY = 'user_data';
@@ -15,107 +19,144 @@ export interface LoginCredentials {
   password: string;
 }
 
-export interface AuthResponse {
-  status_code: number;
-  message: {
-    id: string;
-    en: string;
-  };
-  data: {
-    access_token: string;
+export interface AuthData {
+  access_token: string;
+  // Some backends also return the profile alongside the token
+  user?: {
+    id: number | string;
+    username?: string;
+    name?: string;
   };
 }
 
-export interface LogoutResponse {
-  status_code: number;
-  message: {
-    id: string;
-    en: string;
-  };
-  data: null;
-}
+export type AuthResponse = ApiEnvelope<AuthData>;
+
+export type LogoutResponse = ApiEnvelope<null>;
+
+type SessionExpiredListener = () => void;
 
 class AuthService {
-  private apiUrl = API_BASE_URL;
+  private sessionExpiredListeners = new Set<SessionExpiredListener>();
+  private expiring: Promise<void> | null = null;
+
+  constructor() {
+    apiClient.setTokenProvider(() => this.getValidToken());
+    apiClient.setUnauthorizedHandler(() => {
+      this.expireSession();
+    });
+  }
 
   async login(credentials: LoginCredentials): Promise<{ token: string; user: User }> {
     try {
-      const response = await fetch(`${this.apiUrl}${API_CONFIG.ENDPOINTS.AUTH.LOGIN}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(credentials),
+      const { data } = await apiClient.post<AuthData>(API_CONFIG.ENDPOINTS.AUTH.LOGIN, credentials, {
+        auth: false,
       });
 
-      if (!response.ok) {
-        throw new Error('Login failed');
-      }
-
-      const data: AuthResponse = await response.json();
+      const token = data.access_token;
+      const user = this.resolveUser(data, credentials.username);
       
-      if (data.status_code !== 200) {
-        throw new Error('Login failed');
-      }
-
-      const token = data.data.access_token;
-      
-      const user: User = {
-        id: '1',
-        username: credentials.username,
-        name: credentials.username,
-      };
-      
-      await AsyncStorage.setItem(AUTH_TOKEN_KEY, token);
-      await AsyncStorage.setItem(USER_DATA_KEY, JSON.stringify(user));
+      await storageService.setSecureItem(AUTH_TOKEN_KEY, token);
+      await storageService.setJSON(USER_DATA_KEY, user);
       
       return { token, user };
     } catch (error) {
-      if (error instanceof TypeError && error.message.includes('Network request failed')) {
-        throw new Error('Network connection failed. Please check your internet connection.');
-      }
-      
-      if (error instanceof SyntaxError) {
-        throw new Error('Server response error. Please try again.');
-      }
-      
-      throw new Error('Invalid username or password');
+      // The login screen turns these into localized messages, preferring the server's own
+      if (error instanceof ApiError) throw error;
+      throw new ServerError(error instanceof Error ? error.message : 'Login failed');
+    }
+  }
+
+  // Token claims come first, the login payload fills any gaps
+  private resolveUser(data: AuthData, loginUsername: string): User {
+    const claims = getIdentityClaims(data.access_token);
+    const id = claims.id ?? (data.user?.id !== undefined ? String(data.user.id) : undefined);
+
+    if (!id) {
+      // Guessing an id would file this account's tasks under someone else's
+      throw new ServerError('Login response did not identify the user');
     }
+
+    const username = claims.username ?? data.user?.username ?? loginUsername;
+    return {
+      id,
+      username,
+      name: claims.name ?? data.user?.name ?? username,
+    };
   }
 
   async logout(): Promise<void> {
+    // Nothing still in flight should land after the session is gone
+    apiClient.cancelAll();
+
     try {
       const token = await this.getToken();
       
       if (token) {
-        await fetch(`${this.apiUrl}${API_CONFIG.ENDPOINTS.AUTH.LOGOUT}`, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json',
-          },
-        });
+        await apiClient.post<null>(API_CONFIG.ENDPOINTS.AUTH.LOGOUT);
       }
     } catch (error) {
       console.error('Logout API error:', error);
     } finally {
-      await AsyncStorage.removeItem(AUTH_TOKEN_KEY);
-      await AsyncStorage.removeItem(USER_DATA_KEY);
+      await storageService.removeSecureItem(AUTH_TOKEN_KEY);
+      await storageService.removeItem(USER_DATA_KEY);
     }
   }
 
   async getToken(): Promise<string | null> {
-    return await AsyncStorage.getItem(AUTH_TOKEN_KEY);
+    return await storageService.getSecureItem(AUTH_TOKEN_KEY);
+  }
+
+  // The stored token, or null once it has expired; expiry ends the session
+  private async getValidToken(): Promise<string | null> {
+    const token = await this.getToken();
+    if (token && isTokenExpired(token)) {
+      await this.expireSession();
+      return null;
+    }
+    return token;
+  }
+
+  onSessionExpired(listener: SessionExpiredListener): () => void {
+    this.sessionExpiredListeners.add(listener);
+    return () => {
+      this.sessionExpiredListeners.delete(listener);
+    };
+  }
+
+  // Drops the token but keeps the user record, so the namespaced tasks and
+  // offline queue are still there to sync after the same account logs back in
+  expireSession(): Promise<void> {
+    if (!this.expiring) {
+      this.expiring = (async () => {
+        const token = await this.getToken();
+        if (!token) return;
+
+        console.warn('Session expired, signing out');
+        await storageService.removeSecureItem(AUTH_TOKEN_KEY);
+        this.sessionExpiredListeners.forEach(listener => listener());
+      })().finally(() => {
+        this.expiring = null;
+      });
+    }
+    return this.expiring;
   }
 
   async getCurrentUser(): Promise<User | null> {
-    const userData = await AsyncStorage.getItem(USER_DATA_KEY);
-    return userData ? JSON.parse(userData) : null;
+    return await storageService.getJSON<User | null>(USER_DATA_KEY, null);
+  }
+
+  // Namespace for per-account data, so accounts and servers sharing a device never see each other's data
+  async getStorageScope(): Promise<string | null> {
+    const user = await this.getCurrentUser();
+    if (!user) return null;
+    await serverConfigService.load();
+    const server = serverConfigService.getApiBaseUrl().replace(/^[a-z]+:\/\//i, '');
+    return `${server}:${user.id}`;
   }
 
   async isAuthenticated(): Promise<boolean> {
     const token = await this.getToken();
-    return token !== null;
+    return token !== null && !isTokenExpired(token);
   }
 }
 
@@ -0,0 +1,53 @@
+export interface JwtPayload {
+  exp?: number;
+  sub?: string | number;
+  [claim: string]: unknown;
+}
+
+export interface IdentityClaims {
+  id?: string;
+  username?: string;
+  name?: string;
+}
+
+// Treat tokens this close to expiry as already expired, so requests don't race the deadline
+const EXPIRY_SKEW_SECONDS = 30;
+
+// Reads the claims without verifying the signature; the server stays the authority
+export function decodeJwt(token: string): JwtPayload | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+
+  try {
+    const base64 = parts[1].replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+    const payload = JSON.parse(atob(padded));
+    return payload && typeof payload === 'object' ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+// Tokens without a readable `exp` are left for the server to reject
+export function isTokenExpired(token: string, now: number = Date.now()): boolean {
+  const exp = decodeJwt(token)?.exp;
+  if (typeof exp !== 'number') return false;
+  return exp - EXPIRY_SKEW_SECONDS <= now / 1000;
+}
+
+function stringClaim(value: unknown): string | undefined {
+  if (typeof value === 'number') return String(value);
+  return typeof value === 'string' && value.trim() ? value : undefined;
+}
+
+// Backends disagree on claim names, so accept the common spellings
+export function getIdentityClaims(token: string): IdentityClaims {
+  const payload = decodeJwt(token);
+  if (!payload) return {};
+
+  return {
+    id: stringClaim(payload.sub) ?? stringClaim(payload.user_id) ?? stringClaim(payload.id),
+    username: stringClaim(payload.username) ?? stringClaim(payload.preferred_username),
+    name: stringClaim(payload.name),
+  };
+}
@@ -0,0 +1,516 @@
+import { API_CONFIG } from '../config/api';
+import { decodeJwt } from './jwt';
+import { storageService } from './storageService';
+
+const MOCK_CONFIG_KEY = 'mock_backend_config';
+export const MOCK_URL_SCHEME = 'mock://';
+
+export interface MockBackendConfig {
+  // Delay added to every response
+  latencyMs: number;
+  // Fraction of task and project requests (0-1) answered with a 503
+  serverErrorRate: number;
+  // Fraction of task and project requests (0-1) that fail as if the device were offline
+  networkErrorRate: number;
+  tokenTtlSeconds: number;
+}
+
+interface MockUser {
+  id: number;
+  username: string;
+  password: string;
+  name: string;
+}
+
+interface MockTask {
+  id: number;
+  title: string;
+  description: string | null;
+  priority: string;
+  tags: string[];
+  project_id: number | null;
+  checklist: { id: string; title: string; done: boolean }[];
+  auto_complete: boolean;
+  repeat_rule: string | null;
+  completed: boolean;
+  due_date: string | null;
+  user: { id: number; username: string };
+  updated_at: string;
+  client_request_id?: string;
+}
+
+interface MockProject {
+  id: number;
+  name: string;
+  color: string;
+  icon: string;
+  userId: number;
+  updated_at: string;
+  client_request_id?: string;
+}
+
+interface MockResponse {
+  status: number;
+  body?: unknown;
+}
+
+const DEFAULT_CONFIG: MockBackendConfig = {
+  latencyMs: 300,
+  serverErrorRate: 0,
+  networkErrorRate: 0,
+  tokenTtlSeconds: 60 * 60,
+};
+
+const MOCK_USERS: MockUser[] = [
+  {
+    id: 1,
+    username: API_CONFIG.DEMO_CREDENTIALS.USERNAME,
+    password: API_CONFIG.DEMO_CREDENTIALS.PASSWORD,
+    name: 'Demo Admin',
+  },
+  { id: 2, username: 'demo', password: 'demo', name: 'Demo User' },
+];
+
+interface SeedTask {
+  title: string;
+  description?: string;
+  priority?: string;
+  tags?: string[];
+  projectId?: number;
+  checklist?: string[];
+  repeatRule?: string;
+  dayOffset: number;
+  completed: boolean;
+  userId: number;
+}
+
+// Ids follow the list order, starting at 1
+const SEED_PROJECTS: Omit<MockProject, 'id' | 'updated_at'>[] = [
+  { name: 'Work', color: '#3b82f6', icon: 'briefcase-outline', userId: 1 },
+  { name: 'Home', color: '#10b981', icon: 'home-outline', userId: 2 },
+];
+
+const SEED_TASKS: SeedTask[] = [
+  { title: 'Review pull requests', priority: 'high', tags: ['work'], projectId: 1, dayOffset: 0, completed: false, userId: 1 },
+  {
+    title: 'Prepare sprint demo',
+    description: 'Show the **offline sync** flow:\n- Create a task in airplane mode\n- Reconnect and sync\n\nNotes in the [wiki](https://example.com/wiki).',
+    tags: ['work'],
+    projectId: 1,
+    checklist: ['Write the demo script', 'Record a backup video', 'Book the meeting room'],
+    dayOffset: 1,
+    completed: false,
+    userId: 1,
+  },
+  { title: 'Update project roadmap', projectId: 1, dayOffset: 3, completed: false, userId: 1 },
+  { title: 'Send weekly report', dayOffset: -2, completed: true, userId: 1 },
+  {
+    title: 'Send weekly report',
+    repeatRule: 'FREQ=WEEKLY;INTERVAL=1;BYDAY=FR',
+    projectId: 1,
+    dayOffset: 5,
+    completed: false,
+    userId: 1,
+  },
+  { title: 'Renew domain name', priority: 'urgent', dayOffset: -1, completed: false, userId: 1 },
+  {
+    title: 'Buy groceries',
+    description: '1. Milk\n2. Eggs\n3. Coffee *beans*',
+    tags: ['errands', 'home'],
+    projectId: 2,
+    dayOffset: 0,
+    completed: false,
+    userId: 2,
+  },
+  { title: 'Book dentist appointment', dayOffset: 5, completed: false, userId: 2 },
+];
+
+// The server's own list, kept separate from the app's like a real backend would
+const PRIORITIES = ['none', 'low', 'medium', 'high', 'urgent'];
+
+const message = (en: string, id: string) => ({ en, id });
+
+const toDateString = (dayOffset: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() + dayOffset);
+  return date.toISOString().split('T')[0];
+};
+
+const base64Url = (value: string) =>
+  btoa(value).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+export function isMockUrl(url: string): boolean {
+  return url.startsWith(MOCK_URL_SCHEME);
+}
+
+/**
+ * In-process stand-in for the REST backend, selected like any other server.
+ * Speaks the same `{status_code, message, data}` envelope, so everything above
+ * the transport behaves exactly as it would against the real API.
+ */
+class MockBackend {
+  private tasks: MockTask[] = [];
+  private nextTaskId = 1;
+  private projects: MockProject[] = [];
+  private nextProjectId = 1;
+  private config: MockBackendConfig | null = null;
+
+  constructor() {
+    this.seed();
+  }
+
+  seed(): void {
+    const now = new Date().toISOString();
+    this.tasks = SEED_TASKS.map((task, index) => {
+      const user = MOCK_USERS.find(u => u.id === task.userId)!;
+      return {
+        id: index + 1,
+        title: task.title,
+        description: task.description || null,
+        priority: task.priority || 'none',
+        tags: task.tags || [],
+        project_id: task.projectId ?? null,
+        checklist: (task.checklist || []).map((title, itemIndex) => ({
+          id: `seed-${index + 1}-${itemIndex + 1}`,
+          title,
+          done: itemIndex === 0,
+        })),
+        auto_complete: false,
+        repeat_rule: task.repeatRule || null,
+        completed: task.completed,
+        due_date: toDateString(task.dayOffset),
+        user: { id: user.id, username: user.username },
+        updated_at: now,
+      };
+    });
+    this.nextTaskId = this.tasks.length + 1;
+
+    this.projects = SEED_PROJECTS.map((project, index) => ({ ...project, id: index + 1, updated_at: now }));
+    this.nextProjectId = this.projects.length + 1;
+  }
+
+  async getConfig(): Promise<MockBackendConfig> {
+    if (!this.config) {
+      const stored = await storageService.getJSON<Partial<MockBackendConfig>>(MOCK_CONFIG_KEY, {});
+      this.config = { ...DEFAULT_CONFIG, ...stored };
+    }
+    return this.config;
+  }
+
+  async updateConfig(changes: Partial<MockBackendConfig>): Promise<MockBackendConfig> {
+    const config = { ...(await this.getConfig()), ...changes };
+    this.config = config;
+    await storageService.setJSON(MOCK_CONFIG_KEY, config);
+    return config;
+  }
+
+  // Drop-in replacement for `fetch` for mock:// URLs
+  fetch = async (url: string, init: RequestInit = {}): Promise<Response> => {
+    const config = await this.getConfig();
+    const pathname = this.parsePath(url);
+    const method = (init.method || 'GET').toUpperCase();
+
+    await this.delay(config.latencyMs, init.signal);
+
+    const { TASKS, PROJECTS } = API_CONFIG.ENDPOINTS;
+    const isDataRequest = pathname.startsWith(TASKS) || pathname.startsWith(PROJECTS);
+    if (isDataRequest && Math.random() < config.networkErrorRate) {
+      throw new TypeError('Network request failed');
+    }
+
+    let result: MockResponse;
+    if (isDataRequest && Math.random() < config.serverErrorRate) {
+      result = this.error(503, message('Service unavailable (simulated)', 'Layanan tidak tersedia (simulasi)'));
+    } else {
+      const headers = new Headers(init.headers);
+      const body = typeof init.body === 'string' && init.body ? JSON.parse(init.body) : undefined;
+      result = this.route(method, pathname, headers, body, config);
+    }
+
+    if (__DEV__) {
+      console.log(`Mock ${method} ${pathname} -> ${result.status}`);
+    }
+
+    return new Response(result.body === undefined ? null : JSON.stringify(result.body), {
+      status: result.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  };
+
+  // The query string is dropped; the mock always answers with full lists
+  private parsePath(url: string): string {
+    const withoutScheme = url.slice(MOCK_URL_SCHEME.length);
+    const pathStart = withoutScheme.indexOf('/');
+    const path = pathStart === -1 ? '/' : withoutScheme.slice(pathStart);
+    return path.split('?')[0];
+  }
+
+  private delay(ms: number, signal?: AbortSignal | null): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new Error('Aborted'));
+        return;
+      }
+      const timer = setTimeout(resolve, ms);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new Error('Aborted'));
+      });
+    });
+  }
+
+  private ok(data: unknown, status = 200): MockResponse {
+    return { status, body: { status_code: status, message: message('Success', 'Berhasil'), data } };
+  }
+
+  private error(status: number, errorMessage: { en: string; id: string }): MockResponse {
+    return { status, body: { status_code: status, message: errorMessage, data: null } };
+  }
+
+  private isValidPriority(priority: unknown): boolean {
+    return priority === undefined || PRIORITIES.includes(priority as string);
+  }
+
+  private isValidTags(tags: unknown): boolean {
+    return tags === undefined || (Array.isArray(tags) && tags.every(tag => typeof tag === 'string'));
+  }
+
+  private isValidChecklist(checklist: unknown): boolean {
+    return checklist === undefined || (
+      Array.isArray(checklist) &&
+      checklist.every(item => item && typeof item.id === 'string' && typeof item.title === 'string')
+    );
+  }
+
+  private isValidRepeatRule(repeatRule: unknown): boolean {
+    return repeatRule === undefined || repeatRule === null ||
+      (typeof repeatRule === 'string' && /(^|;)FREQ=(DAILY|WEEKLY|MONTHLY)(;|$)/.test(repeatRule));
+  }
+
+  // Tasks may only be filed under one of their owner's projects, or none for the Inbox
+  private isValidProject(userId: number, projectId: unknown): boolean {
+    return projectId === undefined || projectId === null || this.projects.some(p => p.id === projectId && p.userId === userId);
+  }
+
+  private route(
+    method: string,
+    pathname: string,
+    headers: Headers,
+    body: any,
+    config: MockBackendConfig
+  ): MockResponse {
+    const { AUTH, TASKS, PROJECTS, HEALTH } = API_CONFIG.ENDPOINTS;
+
+    if (pathname === HEALTH && method === 'GET') {
+      return this.ok({ status: 'ok' });
+    }
+    if (pathname === AUTH.LOGIN && method === 'POST') {
+      return this.login(body, config);
+    }
+
+    const user = this.authenticate(headers);
+    if (!user) {
+      return this.error(401, message('Unauthorized', 'Tidak diizinkan'));
+    }
+
+    if (pathname === AUTH.LOGOUT && method === 'POST') {
+      return this.ok(null);
+    }
+
+    if (pathname === TASKS) {
+      if (method === 'GET') return this.ok(this.tasks.filter(task => task.user.id === user.id));
+      if (method === 'POST') return this.createTask(user, body, headers.get('Idempotency-Key'));
+    }
+
+    const taskMatch = pathname.match(new RegExp(`^${TASKS}/(-?\\d+)$`));
+    if (taskMatch) {
+      const task = this.tasks.find(t => t.id === Number(taskMatch[1]) && t.user.id === user.id);
+      if (!task) return this.error(404, message('Task not found', 'Tugas tidak ditemukan'));
+
+      if (method === 'GET') return this.ok(task);
+      if (method === 'PUT') return this.updateTask(task, body);
+      if (method === 'DELETE') {
+        this.tasks = this.tasks.filter(t => t !== task);
+        return this.ok(null);
+      }
+    }
+
+    if (pathname === PROJECTS) {
+      if (method === 'GET') return this.ok(this.projects.filter(p => p.userId === user.id).map(this.toProjectBody));
+      if (method === 'POST') return this.createProject(user, body, headers.get('Idempotency-Key'));
+    }
+
+    const projectMatch = pathname.match(new RegExp(`^${PROJECTS}/(-?\\d+)$`));
+    if (projectMatch) {
+      const project = this.projects.find(p => p.id === Number(projectMatch[1]) && p.userId === user.id);
+      if (!project) return this.error(404, message('Project not found', 'Proyek tidak ditemukan'));
+
+      if (method === 'GET') return this.ok(this.toProjectBody(project));
+      if (method === 'PUT') return this.updateProject(project, body);
+      if (method === 'DELETE') return this.deleteProject(project);
+    }
+
+    return this.error(404, message(`No mock route for ${method} ${pathname}`, 'Rute tidak ditemukan'));
+  }
+
+  private login(body: any, config: MockBackendConfig): MockResponse {
+    const user = MOCK_USERS.find(u => u.username === body?.username && u.password === body?.password);
+    if (!user) {
+      return this.error(401, message('Invalid username or password', 'Username atau password salah'));
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const header = base64Url(JSON.stringify({ alg: 'none', typ: 'JWT' }));
+    const payload = base64Url(JSON.stringify({
+      sub: String(user.id),
+      username: user.username,
+      name: user.name,
+      iat: now,
+      exp: now + config.tokenTtlSeconds,
+    }));
+    return this.ok({ access_token: `${header}.${payload}.mock` });
+  }
+
+  private authenticate(headers: Headers): MockUser | undefined {
+    const token = headers.get('Authorization')?.replace(/^Bearer /, '');
+    const claims = token ? decodeJwt(token) : null;
+    if (!claims || typeof claims.exp !== 'number' || claims.exp <= Date.now() / 1000) {
+      return undefined;
+    }
+    return MOCK_USERS.find(u => String(u.id) === String(claims.sub));
+  }
+
+  private createTask(user: MockUser, body: any, idempotencyKey: string | null): MockResponse {
+    if (!body?.title || typeof body.title !== 'string') {
+      return this.error(400, message('Title is required', 'Judul wajib diisi'));
+    }
+    if (!this.isValidPriority(body.priority)) {
+      return this.error(400, message('Invalid priority', 'Prioritas tidak valid'));
+    }
+    if (!this.isValidTags(body.tags)) {
+      return this.error(400, message('Tags must be a list of text', 'Label harus berupa daftar teks'));
+    }
+    if (!this.isValidProject(user.id, body.projectId)) {
+      return this.error(400, message('Project not found', 'Proyek tidak ditemukan'));
+    }
+    if (!this.isValidChecklist(body.checklist)) {
+      return this.error(400, message('Invalid checklist', 'Daftar periksa tidak valid'));
+    }
+    if (!this.isValidRepeatRule(body.repeatRule)) {
+      return this.error(400, message('Invalid repeat rule', 'Aturan pengulangan tidak valid'));
+    }
+
+    const requestId = idempotencyKey || body.client_request_id;
+    const existing = requestId && this.tasks.find(t => t.client_request_id === requestId);
+    if (existing) return this.ok(existing);
+
+    const task: MockTask = {
+      id: this.nextTaskId++,
+      title: body.title,
+      description: body.description || null,
+      priority: body.priority || 'none',
+      tags: body.tags || [],
+      project_id: body.projectId ?? null,
+      checklist: body.checklist || [],
+      auto_complete: !!body.autoComplete,
+      repeat_rule: body.repeatRule || null,
+      completed: false,
+      due_date: body.dueDate || body.due_date || null,
+      user: { id: user.id, username: user.username },
+      updated_at: new Date().toISOString(),
+      client_request_id: requestId || undefined,
+    };
+    this.tasks.push(task);
+    return this.ok(task, 201);
+  }
+
+  private updateTask(task: MockTask, body: any): MockResponse {
+    if (body?.title !== undefined && (typeof body.title !== 'string' || !body.title.trim())) {
+      return this.error(400, message('Title cannot be empty', 'Judul tidak boleh kosong'));
+    }
+    if (!this.isValidPriority(body?.priority)) {
+      return this.error(400, message('Invalid priority', 'Prioritas tidak valid'));
+    }
+    if (!this.isValidTags(body?.tags)) {
+      return this.error(400, message('Tags must be a list of text', 'Label harus berupa daftar teks'));
+    }
+    if (!this.isValidProject(task.user.id, body?.projectId)) {
+      return this.error(400, message('Project not found', 'Proyek tidak ditemukan'));
+    }
+    if (!this.isValidChecklist(body?.checklist)) {
+      return this.error(400, message('Invalid checklist', 'Daftar periksa tidak valid'));
+    }
+    if (!this.isValidRepeatRule(body?.repeatRule)) {
+      return this.error(400, message('Invalid repeat rule', 'Aturan pengulangan tidak valid'));
+    }
+
+    if (body?.title !== undefined) task.title = body.title;
+    if (body?.description !== undefined) task.description = body.description || null;
+    if (body?.priority !== undefined) task.priority = body.priority;
+    if (body?.tags !== undefined) task.tags = body.tags;
+    if (body?.projectId !== undefined) task.project_id = body.projectId;
+    if (body?.checklist !== undefined) task.checklist = body.checklist;
+    if (body?.autoComplete !== undefined) task.auto_complete = !!body.autoComplete;
+    if (body?.repeatRule !== undefined) task.repeat_rule = body.repeatRule || null;
+    if (body?.completed !== undefined) task.completed = !!body.completed;
+    if (body?.dueDate !== undefined || body?.due_date !== undefined) {
+      task.due_date = body.dueDate ?? body.due_date ?? null;
+    }
+    task.updated_at = new Date().toISOString();
+    return this.ok(task);
+  }
+
+  // The owner id stays on the server
+  private toProjectBody({ userId, ...project }: MockProject) {
+    return project;
+  }
+
+  private createProject(user: MockUser, body: any, idempotencyKey: string | null): MockResponse {
+    if (!body?.name || typeof body.name !== 'string' || !body.name.trim()) {
+      return this.error(400, message('Project name is required', 'Nama proyek wajib diisi'));
+    }
+
+    const requestId = idempotencyKey || body.client_request_id;
+    const existing = requestId && this.projects.find(p => p.client_request_id === requestId);
+    if (existing) return this.ok(this.toProjectBody(existing));
+
+    const project: MockProject = {
+      id: this.nextProjectId++,
+      name: body.name.trim(),
+      color: body.color || '#3b82f6',
+      icon: body.icon || 'folder-outline',
+      userId: user.id,
+      updated_at: new Date().toISOString(),
+      client_request_id: requestId || undefined,
+    };
+    this.projects.push(project);
+    return this.ok(this.toProjectBody(project), 201);
+  }
+
+  private updateProject(project: MockProject, body: any): MockResponse {
+    if (body?.name !== undefined && (typeof body.name !== 'string' || !body.name.trim())) {
+      return this.error(400, message('Project name cannot be empty', 'Nama proyek tidak boleh kosong'));
+    }
+
+    if (body?.name !== undefined) project.name = body.name.trim();
+    if (body?.color !== undefined) project.color = body.color;
+    if (body?.icon !== undefined) project.icon = body.icon;
+    project.updated_at = new Date().toISOString();
+    return this.ok(this.toProjectBody(project));
+  }
+
+  // Tasks of a deleted project move to the Inbox rather than being deleted
+  private deleteProject(project: MockProject): MockResponse {
+    const now = new Date().toISOString();
+    this.tasks.forEach(task => {
+      if (task.project_id === project.id) {
+        task.project_id = null;
+        task.updated_at = now;
+      }
+    });
+    this.projects = this.projects.filter(p => p !== project);
+    return this.ok(null);
+  }
+}
+
+export const mockBackend = new MockBackend();
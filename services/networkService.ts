@@ -0,0 +1,104 @@
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+import { SyncResult, taskService } from './taskService';
+
+export type NetworkStatus = 'online' | 'offline' | 'syncing';
+
+type NetworkStatusListener = (status: NetworkStatus) => void;
+
+// Connections often flap right after coming back, so wait before syncing
+const RECONNECT_SYNC_DELAY_MS = 2000;
+
+class NetworkService {
+  private isConnected = true;
+  private isSyncing = false;
+  private listeners = new Set<NetworkStatusListener>();
+  private netInfoUnsubscribe: (() => void) | null = null;
+  private syncTimer: ReturnType<typeof setTimeout> | null = null;
+  private syncPromise: Promise<SyncResult> | null = null;
+
+  start(): void {
+    if (this.netInfoUnsubscribe) return;
+
+    this.netInfoUnsubscribe = NetInfo.addEventListener((state) => this.handleStateChange(state));
+  }
+
+  stop(): void {
+    this.netInfoUnsubscribe?.();
+    this.netInfoUnsubscribe = null;
+    this.cancelScheduledSync();
+  }
+
+  getStatus(): NetworkStatus {
+    if (this.isSyncing) return 'syncing';
+    return this.isConnected ? 'online' : 'offline';
+  }
+
+  subscribe(listener: NetworkStatusListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Runs a sync, sharing the in-flight one if a sync is already running; offline it waits for the reconnect sync
+  async syncNow(): Promise<SyncResult> {
+    if (this.syncPromise) return this.syncPromise;
+    if (!this.isConnected) {
+      return { stopped: 'offline', remaining: (await taskService.getPendingActions()).length, failed: 0 };
+    }
+
+    this.cancelScheduledSync();
+    this.isSyncing = true;
+    this.notify();
+
+    this.syncPromise = taskService.syncOfflineChanges().finally(() => {
+      this.isSyncing = false;
+      this.syncPromise = null;
+      this.notify();
+    });
+
+    return this.syncPromise;
+  }
+
+  private handleStateChange(state: NetInfoState): void {
+    // isInternetReachable is null while unknown, which should not count as offline
+    const connected = state.isConnected !== false && state.isInternetReachable !== false;
+    const wasConnected = this.isConnected;
+    this.isConnected = connected;
+
+    if (connected && !wasConnected) {
+      console.log('Connection restored, scheduling sync');
+      this.scheduleSync();
+    } else if (!connected) {
+      this.cancelScheduledSync();
+    }
+
+    if (connected !== wasConnected) {
+      this.notify();
+    }
+  }
+
+  private scheduleSync(): void {
+    this.cancelScheduledSync();
+    this.syncTimer = setTimeout(() => {
+      this.syncTimer = null;
+      this.syncNow().catch((error) => {
+        console.warn('Sync after reconnect failed:', error);
+      });
+    }, RECONNECT_SYNC_DELAY_MS);
+  }
+
+  private cancelScheduledSync(): void {
+    if (this.syncTimer) {
+      clearTimeout(this.syncTimer);
+      this.syncTimer = null;
+    }
+  }
+
+  private notify(): void {
+    const status = this.getStatus();
+    this.listeners.forEach((listener) => listener(status));
+  }
+}
+
+export const networkService = new NetworkService();
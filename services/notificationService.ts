@@ -2,6 +2,7 @@ import Constants from 'expo-constants';
 import * as Device from 'expo-device';
 import * as Notifications from 'expo-notifications';
 import { AppState, AppStateStatus, Platform } from 'react-native';
+import { t, tp } from '../i18n';
 import { taskService } from './taskService';
 
 // Configure notification behavior
@@ -44,8 +45,8 @@ class NotificationService {
     if (Platform.OS === 'android') {
       try {
         await Notifications.setNotificationChannelAsync('default', {
-          name: 'Task Manager',
-          description: 'Notifications for task management',
+          name: t('notifications.channelName'),
+          description: t('notifications.channelDescription'),
           importance: Notifications.AndroidImportance.MAX,
           vibrationPattern: [0, 250, 250, 250],
           lightColor: '#3b82f6',
@@ -119,13 +120,11 @@ class NotificationService {
       const dueTasks = await taskService.getDueTasks();
       
       if (dueTasks.length > 0) {
-        const title = dueTasks.length === 1 
-          ? '📅 Task Due Today!' 
-          : `📅 ${dueTasks.length} Tasks Due Today!`;
+        const title = tp('notifications.dueTitle', dueTasks.length);
         
         const body = dueTasks.length === 1
-          ? `"${dueTasks[0].title}" is due today`
-          : `You have ${dueTasks.length} tasks due today.`;
+          ? t('notifications.dueBodySingle', { title: dueTasks[0].title })
+          : t('notifications.dueBodyMultiple', { count: dueTasks.length });
 
         await this.scheduleImmediateNotification(title, body);
         
@@ -227,8 +226,8 @@ class NotificationService {
         // For Android, use a simple time-based trigger for the next 9 AM
         await Notifications.scheduleNotificationAsync({
           content: {
-            title: '🌅 Good Morning!',
-            body: 'Don\'t forget to check your tasks for today!',
+            title: t('notifications.dailyTitle'),
+            body: t('notifications.dailyBody'),
             data: { type: 'daily_check' },
           },
           trigger: {
@@ -240,8 +239,8 @@ class NotificationService {
         // For iOS, we can use the calendar trigger
         await Notifications.scheduleNotificationAsync({
           content: {
-            title: '🌅 Good Morning!',
-            body: 'Don\'t forget to check your tasks for today!',
+            title: t('notifications.dailyTitle'),
+            body: t('notifications.dailyBody'),
             data: { type: 'daily_check' },
           },
           trigger: {
@@ -0,0 +1,300 @@
+import { Ionicons } from '@expo/vector-icons';
+import * as Crypto from 'expo-crypto';
+import { API_CONFIG } from '../config/api';
+import { apiClient } from './apiClient';
+import { ValidationError } from './apiErrors';
+import { authService } from './authService';
+import { projectStore } from './projectStore';
+import { storageService } from './storageService';
+import { createLock, OfflineAction, shouldQueueOffline, taskService } from './taskService';
+
+export type ProjectIcon = keyof typeof Ionicons.glyphMap;
+
+export interface Project {
+  id: number;
+  name: string;
+  color: string;
+  icon: ProjectIcon;
+  updated_at?: string;
+  client_request_id?: string;
+  isLocal?: boolean;
+  needsSync?: boolean;
+}
+
+export interface CreateProjectData {
+  name: string;
+  color: string;
+  icon: ProjectIcon;
+}
+
+export type UpdateProjectData = Partial<CreateProjectData>;
+
+export const PROJECT_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#14b8a6', '#6b7280'];
+
+export const PROJECT_ICONS: ProjectIcon[] = [
+  'folder-outline',
+  'briefcase-outline',
+  'home-outline',
+  'cart-outline',
+  'book-outline',
+  'fitness-outline',
+  'airplane-outline',
+  'heart-outline',
+];
+
+// Stored per account and server, like the task cache
+const PROJECTS_KEY = 'projects';
+
+/**
+ * Projects group tasks; tasks without one sit in the Inbox. Offline changes go
+ * through TaskService's queue so they replay in order with the task changes
+ * that depend on them, e.g. a task created in a project made offline.
+ */
+class ProjectService {
+  private endpoint = API_CONFIG.ENDPOINTS.PROJECTS;
+  private projectsLock = createLock();
+
+  constructor() {
+    taskService.setProjectSyncHandler({
+      replay: (action, actions) => this.replayAction(action, actions),
+      discard: action => this.discardAction(action),
+    });
+  }
+
+  private convertBackendProject(backendProject: any): Project {
+    return {
+      ...backendProject,
+      color: backendProject.color || PROJECT_COLORS[0],
+      // Icons this version of the app does not ship fall back to the default
+      icon: typeof backendProject.icon === 'string' && backendProject.icon in Ionicons.glyphMap
+        ? backendProject.icon
+        : PROJECT_ICONS[0],
+    };
+  }
+
+  private async scopedKey(): Promise<string> {
+    const scope = await authService.getStorageScope();
+    return `${PROJECTS_KEY}:${scope ?? 'signed_out'}`;
+  }
+
+  private async getStoredProjects(): Promise<Project[]> {
+    return storageService.getJSON<Project[]>(await this.scopedKey(), []);
+  }
+
+  private async storeProjects(projects: Project[]): Promise<void> {
+    await storageService.setJSON(await this.scopedKey(), projects);
+    projectStore.setProjects(projects);
+  }
+
+  // Applies a change to a fresh read of the cache, so concurrent changes to other projects are not overwritten
+  private async updateStoredProjects(
+    update: (projects: Project[]) => Project[] | Promise<Project[]>
+  ): Promise<Project[]> {
+    return this.projectsLock(async () => {
+      const projects = await update(await this.getStoredProjects());
+      await this.storeProjects(projects);
+      return projects;
+    });
+  }
+
+  // Publishes the cached projects to the store without touching the network
+  async loadCachedProjects(): Promise<Project[]> {
+    const projects = await this.getStoredProjects();
+    projectStore.setProjects(projects);
+    return projects;
+  }
+
+  // Local ids are negative so they can never collide with a server id
+  private generateLocalProjectId(): number {
+    return -(Date.now() * 1000 + Math.floor(Math.random() * 1000));
+  }
+
+  private postCreate(data: CreateProjectData, idempotencyKey: string) {
+    return apiClient.post<any>(
+      this.endpoint,
+      { ...data, client_request_id: idempotencyKey },
+      { headers: { 'Idempotency-Key': idempotencyKey } }
+    );
+  }
+
+  async fetchProjects(): Promise<Project[]> {
+    try {
+      const { data } = await apiClient.get<Project[]>(this.endpoint);
+      return await this.updateStoredProjects(async storedProjects => {
+        const projectActions = (await taskService.getPendingActions()).filter(a => a.entity === 'project');
+        const pendingIds = new Set(projectActions.map(a => a.taskId));
+        const deletedLocally = new Set(projectActions.filter(a => a.type === 'delete').map(a => a.taskId));
+
+        // Projects with queued changes keep their local copy until those changes are synced
+        const merged = data.filter(project => !deletedLocally.has(project.id)).map(project => {
+          const stored = storedProjects.find(p => p.id === project.id);
+          return stored && pendingIds.has(stored.id) ? stored : this.convertBackendProject(project);
+        });
+        storedProjects.filter(p => p.isLocal).forEach(project => merged.push(project));
+        return merged;
+      });
+    } catch (error) {
+      console.log('Failed to fetch projects, using local storage:', error);
+      return await this.loadCachedProjects();
+    }
+  }
+
+  async createProject(projectData: CreateProjectData): Promise<Project> {
+    const idempotencyKey = Crypto.randomUUID();
+    const newProject: Project = {
+      id: this.generateLocalProjectId(),
+      ...projectData,
+      client_request_id: idempotencyKey,
+      isLocal: true,
+      needsSync: true,
+    };
+
+    try {
+      const { data } = await this.postCreate(projectData, idempotencyKey);
+      const createdProject = this.convertBackendProject(data);
+      await this.updateStoredProjects(projects => [...projects.filter(p => p.id !== createdProject.id), createdProject]);
+      return createdProject;
+    } catch (error) {
+      if (!shouldQueueOffline(error)) throw error;
+      console.log('Creating project offline due to error:', error);
+
+      await this.updateStoredProjects(projects => [...projects, newProject]);
+      await taskService.queueProjectAction({
+        type: 'create',
+        taskId: newProject.id,
+        data: projectData,
+        timestamp: new Date(),
+        idempotencyKey,
+      });
+      return newProject;
+    }
+  }
+
+  async updateProject(projectId: number, updateData: UpdateProjectData): Promise<Project> {
+    const project = (await this.getStoredProjects()).find(p => p.id === projectId);
+    if (!project) {
+      throw new Error('Project not found');
+    }
+
+    // Changes to a project that is not on the server yet ride along with its queued create
+    if (!project.isLocal) {
+      try {
+        const { data } = await apiClient.put<Project>(`${this.endpoint}/${projectId}`, updateData);
+        const updatedProject = this.convertBackendProject(data);
+        await this.updateStoredProjects(projects => projects.map(p => (p.id === projectId ? updatedProject : p)));
+        return updatedProject;
+      } catch (error) {
+        if (!shouldQueueOffline(error)) throw error;
+        console.log('Updating project offline due to error:', error);
+      }
+    }
+
+    let updatedProject: Project = { ...project, ...updateData, needsSync: true };
+    await this.updateStoredProjects(projects => projects.map(p => {
+      if (p.id !== projectId) return p;
+      updatedProject = { ...p, ...updateData, needsSync: true };
+      return updatedProject;
+    }));
+    await taskService.queueProjectAction({
+      type: 'update',
+      taskId: projectId,
+      data: updateData,
+      timestamp: new Date(),
+    });
+    return updatedProject;
+  }
+
+  async deleteProject(projectId: number): Promise<void> {
+    const project = (await this.getStoredProjects()).find(p => p.id === projectId);
+    if (!project) {
+      throw new Error('Project not found');
+    }
+
+    const removeLocally = async () => {
+      await this.updateStoredProjects(projects => projects.filter(p => p.id !== projectId));
+      await taskService.moveTasksToInbox(projectId);
+    };
+
+    if (!project.isLocal) {
+      try {
+        await apiClient.delete(`${this.endpoint}/${projectId}`);
+        await removeLocally();
+        return;
+      } catch (error) {
+        if (error instanceof ValidationError && error.status === 404) {
+          // Already gone on the server
+          await removeLocally();
+          return;
+        }
+        if (!shouldQueueOffline(error)) throw error;
+        console.log('Deleting project offline due to error:', error);
+      }
+    }
+
+    // Queued even for a local project, so compaction can cancel its create
+    await removeLocally();
+    await taskService.queueProjectAction({
+      type: 'delete',
+      taskId: projectId,
+      timestamp: new Date(),
+    });
+  }
+
+  // Replays a queued project action for TaskService's sync loop
+  private async replayAction(action: OfflineAction, actions: OfflineAction[]): Promise<void> {
+    switch (action.type) {
+      case 'create': {
+        const { data } = await this.postCreate(action.data, action.idempotencyKey!);
+        const serverId = data?.id;
+        if (typeof serverId === 'number' && serverId !== action.taskId) {
+          await this.remapProjectId(action.taskId, serverId, actions);
+        }
+        break;
+      }
+
+      case 'update':
+        await apiClient.put(`${this.endpoint}/${action.taskId}`, action.data);
+        break;
+
+      case 'delete':
+        try {
+          await apiClient.delete(`${this.endpoint}/${action.taskId}`);
+        } catch (error) {
+          if (!(error instanceof ValidationError && error.status === 404)) throw error;
+        }
+        break;
+    }
+
+    console.log(`Sync project ${action.type} successful:`, action.taskId);
+  }
+
+  private async remapProjectId(localId: number, serverId: number, actions: OfflineAction[]): Promise<void> {
+    console.log('Remapping local project id', localId, 'to server id', serverId);
+
+    actions.forEach(action => {
+      if (action.entity === 'project' && action.taskId === localId) {
+        action.taskId = serverId;
+      }
+    });
+    await taskService.remapProjectId(localId, serverId, actions);
+
+    await this.updateStoredProjects(projects =>
+      projects.map(p => (p.id === localId ? { ...p, id: serverId, isLocal: false } : p))
+    );
+  }
+
+  // A discarded create means the project will never exist on the server
+  private async discardAction(action: OfflineAction): Promise<void> {
+    if (action.type !== 'create') return;
+
+    await this.updateStoredProjects(projects => projects.filter(p => p.id !== action.taskId));
+    await taskService.moveTasksToInbox(action.taskId);
+  }
+
+  // Removes the cached projects for the signed-in account
+  async clearUserData(): Promise<void> {
+    await storageService.removeItem(await this.scopedKey());
+  }
+}
+
+export const projectService = new ProjectService();
@@ -0,0 +1,50 @@
+import { Project } from './projectService';
+
+type ProjectStoreListener = () => void;
+
+/**
+ * In-memory copy of the signed-in user's projects. ProjectService publishes
+ * every write here, and screens subscribe through useProjects.
+ */
+class ProjectStore {
+  private projects: Project[] = [];
+  private hydrated = false;
+  private listeners = new Set<ProjectStoreListener>();
+
+  getProjects(): Project[] {
+    return this.projects;
+  }
+
+  getProject(projectId: number): Project | undefined {
+    return this.projects.find(project => project.id === projectId);
+  }
+
+  isHydrated(): boolean {
+    return this.hydrated;
+  }
+
+  setProjects(projects: Project[]): void {
+    this.projects = projects;
+    this.hydrated = true;
+    this.notify();
+  }
+
+  clear(): void {
+    this.projects = [];
+    this.hydrated = false;
+    this.notify();
+  }
+
+  subscribe(listener: ProjectStoreListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const projectStore = new ProjectStore();
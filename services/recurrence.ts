@@ -0,0 +1,217 @@
+// 'afterCompletion' counts the interval in days from the day the task was completed
+export type RepeatFrequency = 'daily' | 'weekly' | 'monthly' | 'afterCompletion';
+
+export interface RepeatRule {
+  frequency: RepeatFrequency;
+  // Every N days, weeks or months
+  interval: number;
+  // 0 = Sunday ... 6 = Saturday; weekly rules only
+  weekdays: number[];
+  // Monthly rules repeat on a day of the month, or on the nth weekday (-1 for the last)
+  monthDay?: number;
+  nthWeekday?: { n: number; weekday: number };
+  // Last possible due date, YYYY-MM-DD
+  until?: string;
+  // Occurrences left, counting the task that carries the rule
+  count?: number;
+}
+
+// The due date the next occurrence gets, plus the rule it carries on with
+export interface NextOccurrence {
+  dueDate: string;
+  repeatRule: string;
+}
+
+const DAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Dates are handled as UTC midnight so adding days never trips over daylight saving
+const parseDate = (value: string) => {
+  const [year, month, day] = value.split('T')[0].split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+const toDateString = (date: Date) => date.toISOString().split('T')[0];
+
+// The calendar day on this device, e.g. the day a task was completed
+export function toLocalDateString(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * DAY_MS);
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+// The nth weekday of a month, or the last one for n = -1 or a fifth that does not exist
+const nthWeekdayOfMonth = (year: number, month: number, n: number, weekday: number) => {
+  const firstWeekday = new Date(Date.UTC(year, month, 1)).getUTCDay();
+  const firstMatch = 1 + ((weekday - firstWeekday + 7) % 7);
+  const lastDay = daysInMonth(year, month);
+  const lastMatch = firstMatch + Math.floor((lastDay - firstMatch) / 7) * 7;
+  const day = n === -1 ? lastMatch : Math.min(firstMatch + (n - 1) * 7, lastMatch);
+  return new Date(Date.UTC(year, month, day));
+};
+
+// Which week of the month a date falls in, as used for "the 2nd Tuesday"; the fifth counts as the last
+export function getNthWeekday(dateString: string): { n: number; weekday: number } {
+  const date = parseDate(dateString);
+  const n = Math.ceil(date.getUTCDate() / 7);
+  return { n: n > 4 ? -1 : n, weekday: date.getUTCDay() };
+}
+
+export function getWeekday(dateString: string): number {
+  return parseDate(dateString).getUTCDay();
+}
+
+export function getMonthDay(dateString: string): number {
+  return parseDate(dateString).getUTCDate();
+}
+
+// Reads an RRULE-style string such as "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;COUNT=5"
+export function parseRepeatRule(value: string | null | undefined): RepeatRule | null {
+  if (!value) return null;
+
+  const parts = new Map<string, string>();
+  value.replace(/^RRULE:/i, '').split(';').forEach(part => {
+    const [key, partValue] = part.split('=');
+    if (key && partValue) parts.set(key.trim().toUpperCase(), partValue.trim().toUpperCase());
+  });
+
+  const interval = Math.max(1, parseInt(parts.get('INTERVAL') ?? '1', 10) || 1);
+  const rule: RepeatRule = { frequency: 'daily', interval, weekdays: [] };
+
+  switch (parts.get('FREQ')) {
+    case 'DAILY':
+      rule.frequency = parts.get('X-ANCHOR') === 'COMPLETION' ? 'afterCompletion' : 'daily';
+      break;
+
+    case 'WEEKLY':
+      rule.frequency = 'weekly';
+      rule.weekdays = (parts.get('BYDAY') ?? '')
+        .split(',')
+        .map(code => DAY_CODES.indexOf(code))
+        .filter(day => day !== -1)
+        .sort((a, b) => a - b);
+      break;
+
+    case 'MONTHLY': {
+      rule.frequency = 'monthly';
+      const byDay = parts.get('BYDAY')?.match(/^(-?\d)([A-Z]{2})$/);
+      if (byDay && DAY_CODES.includes(byDay[2])) {
+        rule.nthWeekday = { n: Number(byDay[1]), weekday: DAY_CODES.indexOf(byDay[2]) };
+      } else {
+        const monthDay = parseInt(parts.get('BYMONTHDAY') ?? '', 10);
+        if (monthDay >= 1 && monthDay <= 31) rule.monthDay = monthDay;
+      }
+      break;
+    }
+
+    default:
+      return null;
+  }
+
+  const until = parts.get('UNTIL')?.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (until) rule.until = `${until[1]}-${until[2]}-${until[3]}`;
+
+  const count = parseInt(parts.get('COUNT') ?? '', 10);
+  if (count > 0) rule.count = count;
+
+  return rule;
+}
+
+export function formatRepeatRule(rule: RepeatRule): string {
+  const parts: string[] = [];
+
+  switch (rule.frequency) {
+    case 'daily':
+    case 'afterCompletion':
+      parts.push('FREQ=DAILY');
+      break;
+    case 'weekly':
+      parts.push('FREQ=WEEKLY');
+      break;
+    case 'monthly':
+      parts.push('FREQ=MONTHLY');
+      break;
+  }
+  parts.push(`INTERVAL=${Math.max(1, rule.interval)}`);
+
+  if (rule.frequency === 'afterCompletion') parts.push('X-ANCHOR=COMPLETION');
+  if (rule.frequency === 'weekly' && rule.weekdays.length > 0) {
+    parts.push(`BYDAY=${[...rule.weekdays].sort((a, b) => a - b).map(day => DAY_CODES[day]).join(',')}`);
+  }
+  if (rule.frequency === 'monthly') {
+    if (rule.nthWeekday) {
+      parts.push(`BYDAY=${rule.nthWeekday.n}${DAY_CODES[rule.nthWeekday.weekday]}`);
+    } else if (rule.monthDay) {
+      parts.push(`BYMONTHDAY=${rule.monthDay}`);
+    }
+  }
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+
+  return parts.join(';');
+}
+
+// The first due date after `dueDate` that the rule allows, ignoring the end conditions
+function getNextDate(rule: RepeatRule, dueDate: string, completedOn: string): Date {
+  const due = parseDate(dueDate);
+
+  switch (rule.frequency) {
+    case 'daily':
+      return addDays(due, rule.interval);
+
+    case 'afterCompletion':
+      return addDays(parseDate(completedOn), rule.interval);
+
+    case 'weekly': {
+      const weekdays = rule.weekdays.length > 0 ? rule.weekdays : [due.getUTCDay()];
+      const weekStart = addDays(due, -due.getUTCDay());
+      // Every weekday of every allowed week turns up within interval + 1 weeks
+      for (let offset = 1; offset <= 7 * (rule.interval + 1); offset++) {
+        const candidate = addDays(due, offset);
+        const week = Math.floor((candidate.getTime() - weekStart.getTime()) / (7 * DAY_MS));
+        if (week % rule.interval === 0 && weekdays.includes(candidate.getUTCDay())) {
+          return candidate;
+        }
+      }
+      return addDays(due, 7 * rule.interval);
+    }
+
+    case 'monthly': {
+      const target = new Date(Date.UTC(due.getUTCFullYear(), due.getUTCMonth() + rule.interval, 1));
+      const year = target.getUTCFullYear();
+      const month = target.getUTCMonth();
+      if (rule.nthWeekday) {
+        return nthWeekdayOfMonth(year, month, rule.nthWeekday.n, rule.nthWeekday.weekday);
+      }
+      // Day 31 falls back to the last day of shorter months
+      const monthDay = rule.monthDay ?? due.getUTCDate();
+      return new Date(Date.UTC(year, month, Math.min(monthDay, daysInMonth(year, month))));
+    }
+  }
+}
+
+/**
+ * Works out the occurrence that follows a completed recurring task, or null
+ * once the rule's end date or count has been reached. `dueDate` falls back to
+ * the completion day for tasks without one.
+ */
+export function getNextOccurrence(
+  repeatRule: string | null | undefined,
+  dueDate: string | null,
+  completedOn: string
+): NextOccurrence | null {
+  const rule = parseRepeatRule(repeatRule);
+  if (!rule) return null;
+  if (rule.count !== undefined && rule.count <= 1) return null;
+
+  const next = toDateString(getNextDate(rule, dueDate || completedOn, completedOn));
+  if (rule.until && next > rule.until) return null;
+
+  return {
+    dueDate: next,
+    repeatRule: formatRepeatRule({ ...rule, count: rule.count !== undefined ? rule.count - 1 : undefined }),
+  };
+}
@@ -0,0 +1,49 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import { Platform } from 'react-native';
+
+export interface SecureStorageAdapter {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+// iOS Keychain / Android Keystore
+class KeychainStorage implements SecureStorageAdapter {
+  getItem(key: string): Promise<string | null> {
+    return SecureStore.getItemAsync(key);
+  }
+
+  setItem(key: string, value: string): Promise<void> {
+    return SecureStore.setItemAsync(key, value, {
+      keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK,
+    });
+  }
+
+  removeItem(key: string): Promise<void> {
+    return SecureStore.deleteItemAsync(key);
+  }
+}
+
+// react-native-web has no keychain, so secrets fall back to browser storage.
+// The prefix keeps them apart from the plain keys they were migrated from.
+class WebFallbackStorage implements SecureStorageAdapter {
+  private prefixed(key: string): string {
+    return `secure:${key}`;
+  }
+
+  getItem(key: string): Promise<string | null> {
+    return AsyncStorage.getItem(this.prefixed(key));
+  }
+
+  setItem(key: string, value: string): Promise<void> {
+    return AsyncStorage.setItem(this.prefixed(key), value);
+  }
+
+  removeItem(key: string): Promise<void> {
+    return AsyncStorage.removeItem(this.prefixed(key));
+  }
+}
+
+export const secureStorage: SecureStorageAdapter =
+  Platform.OS === 'web' ? new WebFallbackStorage() : new KeychainStorage();
@@ -0,0 +1,94 @@
+import { API_CONFIG, DEFAULT_ENVIRONMENT, ServerEnvironment } from '../config/api';
+import { t } from '../i18n';
+import { isMockUrl, mockBackend } from './mockBackend';
+import { storageService } from './storageService';
+
+const SERVER_URL_KEY = 'api_server_url';
+const HEALTH_CHECK_TIMEOUT_MS = 5000;
+
+type ServerListener = (url: string) => void;
+
+export interface HealthCheckResult {
+  ok: boolean;
+  error?: string;
+}
+
+class ServerConfigService {
+  private baseUrl = DEFAULT_ENVIRONMENT.url;
+  private loadPromise: Promise<void> | null = null;
+  private listeners = new Set<ServerListener>();
+
+  // Reads the saved server once; requests wait for it before resolving URLs
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          const saved = await storageService.getItem(SERVER_URL_KEY);
+          if (saved) this.baseUrl = saved;
+        } catch (error) {
+          console.error('Error loading server config:', error);
+        }
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  getApiBaseUrl(): string {
+    return this.baseUrl;
+  }
+
+  getEnvironments(): ServerEnvironment[] {
+    return API_CONFIG.ENVIRONMENTS;
+  }
+
+  // The saved environment matching the current URL, or undefined for a custom one
+  getCurrentEnvironment(): ServerEnvironment | undefined {
+    return API_CONFIG.ENVIRONMENTS.find(env => env.url === this.baseUrl);
+  }
+
+  normalizeUrl(url: string): string | null {
+    const trimmed = url.trim().replace(/\/+$/, '');
+    if (isMockUrl(trimmed)) return trimmed;
+    if (!/^https?:\/\/[^\s/]+/i.test(trimmed)) return null;
+    return trimmed;
+  }
+
+  async checkHealth(url: string): Promise<HealthCheckResult> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), HEALTH_CHECK_TIMEOUT_MS);
+
+    try {
+      const transport = isMockUrl(url) ? mockBackend.fetch : fetch;
+      const response = await transport(`${url}${API_CONFIG.ENDPOINTS.HEALTH}`, { signal: controller.signal });
+      if (!response.ok) {
+        return { ok: false, error: t('server.healthStatus', { status: response.status }) };
+      }
+      return { ok: true };
+    } catch (error) {
+      return {
+        ok: false,
+        error: controller.signal.aborted ? t('server.timeout') : t('server.unreachable'),
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  // Callers run checkHealth first; switching servers also ends the session, which they handle
+  async saveServer(url: string): Promise<void> {
+    await this.load();
+    await storageService.setItem(SERVER_URL_KEY, url);
+    this.baseUrl = url;
+    console.log('API server changed to:', url);
+    this.listeners.forEach(listener => listener(url));
+  }
+
+  subscribe(listener: ServerListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export const serverConfigService = new ServerConfigService();
@@ -0,0 +1,163 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getIdentityClaims } from './jwt';
+import { secureStorage } from './secureStorage';
+
+export interface StorageMigration {
+  version: number;
+  description: string;
+  migrate: () => Promise<void>;
+}
+
+// The only server builds could talk to before the server became configurable
+const LEGACY_SERVER = '192.168.5.165:3000';
+
+// Migrations see keys and shapes as they were at their version, so they use
+// literal key names rather than the constants the services use today.
+async function readJSONArray(key: string): Promise<any[] | null> {
+  const json = await AsyncStorage.getItem(key);
+  if (!json) return null;
+
+  try {
+    const value = JSON.parse(json);
+    return Array.isArray(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+async function moveKey(from: string, to: string): Promise<void> {
+  const value = await AsyncStorage.getItem(from);
+  if (value === null) return;
+  await AsyncStorage.setItem(to, value);
+  await AsyncStorage.removeItem(from);
+}
+
+function generateUuid(): string {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, c => {
+    const r = Math.random() * 16 | 0;
+    return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+  });
+}
+
+function normalizeAction(action: any): any {
+  return {
+    ...action,
+    attempts: typeof action.attempts === 'number' ? action.attempts : 0,
+    idempotencyKey: action.idempotencyKey || (action.type === 'create' ? generateUuid() : undefined),
+  };
+}
+
+/**
+ * Ordered list of migrations. Append new entries with the next version number;
+ * never edit one that has shipped.
+ */
+export const STORAGE_MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Normalize cached tasks and queued offline actions',
+    migrate: async () => {
+      const tasks = await readJSONArray('tasks');
+      if (tasks) {
+        // dueDate is derived from due_date on read and should not be persisted
+        const normalized = tasks
+          .filter(task => task && typeof task.id === 'number')
+          .map(({ dueDate, ...task }) => ({
+            ...task,
+            due_date: task.due_date ?? (dueDate ? new Date(dueDate).toISOString().split('T')[0] : null),
+          }));
+        await AsyncStorage.setItem('tasks', JSON.stringify(normalized));
+      }
+
+      for (const key of ['offline_actions', 'dead_letter_actions']) {
+        const actions = await readJSONArray(key);
+        if (actions) {
+          await AsyncStorage.setItem(key, JSON.stringify(actions.map(normalizeAction)));
+        }
+      }
+    },
+  },
+  {
+    version: 2,
+    description: 'Move task data into the namespace of the signed-in account and server',
+    migrate: async () => {
+      const legacyKeys = ['tasks', 'offline_actions', 'dead_letter_actions', 'sync_conflicts', 'tasks_sync_cursor', 'tasks_etag'];
+      const userJson = await AsyncStorage.getItem('user_data');
+      let userId: string | undefined;
+      try {
+        userId = userJson ? JSON.parse(userJson)?.id : undefined;
+      } catch {
+        userId = undefined;
+      }
+
+      if (!userId) {
+        // Nobody to attribute the data to, so it must not leak into the next account
+        await AsyncStorage.multiRemove(legacyKeys);
+        return;
+      }
+
+      const server = LEGACY_SERVER;
+      for (const key of legacyKeys) {
+        await moveKey(key, `${key}:${server}:${userId}`);
+      }
+    },
+  },
+  {
+    version: 3,
+    description: 'Replace the placeholder user id with the one in the stored token',
+    migrate: async () => {
+      const userJson = await AsyncStorage.getItem('user_data');
+      const token = await AsyncStorage.getItem('auth_token');
+      if (!userJson || !token) return;
+
+      let user: any;
+      try {
+        user = JSON.parse(userJson);
+      } catch {
+        return;
+      }
+      // Earlier builds signed every account in as id '1'
+      if (user?.id !== '1') return;
+
+      const claims = getIdentityClaims(token);
+      if (!claims.id || claims.id === '1') return;
+
+      const server = LEGACY_SERVER;
+      const scopedKeys = ['tasks', 'offline_actions', 'dead_letter_actions', 'sync_conflicts', 'tasks_sync_cursor', 'tasks_etag'];
+      for (const key of scopedKeys) {
+        await moveKey(`${key}:${server}:1`, `${key}:${server}:${claims.id}`);
+      }
+
+      await AsyncStorage.setItem('user_data', JSON.stringify({
+        ...user,
+        id: claims.id,
+        username: claims.username ?? user.username,
+        name: claims.name ?? user.name,
+      }));
+    },
+  },
+  {
+    version: 4,
+    description: 'Move the auth token from AsyncStorage into secure storage',
+    migrate: async () => {
+      const token = await AsyncStorage.getItem('auth_token');
+      if (token === null) return;
+
+      // Only drop the plain copy once the keychain has it
+      await secureStorage.setItem('auth_token', token);
+      await AsyncStorage.removeItem('auth_token');
+    },
+  },
+  {
+    version: 5,
+    description: 'Keep existing installs on the server they were built for',
+    migrate: async () => {
+      if (await AsyncStorage.getItem('api_server_url')) return;
+
+      // Without this the data namespaced under the old server would seem to vanish
+      const keys = await AsyncStorage.getAllKeys();
+      if (keys.some(key => key.includes(`:${LEGACY_SERVER}:`))) {
+        await AsyncStorage.setItem('api_server_url', `http://${LEGACY_SERVER}`);
+      }
+    },
+  },
+];
@@ -0,0 +1,92 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { secureStorage } from './secureStorage';
+import { STORAGE_MIGRATIONS } from './storageMigrations';
+
+const SCHEMA_VERSION_KEY = 'storage_schema_version';
+
+class StorageService {
+  private readyPromise: Promise<void> | null = null;
+
+  // Runs pending migrations once; every read and write waits for it
+  ready(): Promise<void> {
+    if (!this.readyPromise) {
+      this.readyPromise = this.runMigrations();
+    }
+    return this.readyPromise;
+  }
+
+  private async runMigrations(): Promise<void> {
+    try {
+      const storedVersion = parseInt((await AsyncStorage.getItem(SCHEMA_VERSION_KEY)) || '0', 10) || 0;
+      const pending = STORAGE_MIGRATIONS
+        .filter(migration => migration.version > storedVersion)
+        .sort((a, b) => a.version - b.version);
+
+      for (const migration of pending) {
+        console.log(`Running storage migration ${migration.version}: ${migration.description}`);
+        await migration.migrate();
+        await AsyncStorage.setItem(SCHEMA_VERSION_KEY, migration.version.toString());
+      }
+    } catch (error) {
+      // Leave the version where it is so the failed migration runs again on next start
+      console.error('Storage migration failed:', error);
+    }
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    await this.ready();
+    return AsyncStorage.getItem(key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.ready();
+    await AsyncStorage.setItem(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.ready();
+    await AsyncStorage.removeItem(key);
+  }
+
+  // Secrets such as the auth token live in the keychain rather than AsyncStorage
+  async getSecureItem(key: string): Promise<string | null> {
+    await this.ready();
+    return secureStorage.getItem(key);
+  }
+
+  async setSecureItem(key: string, value: string): Promise<void> {
+    await this.ready();
+    await secureStorage.setItem(key, value);
+  }
+
+  async removeSecureItem(key: string): Promise<void> {
+    await this.ready();
+    await secureStorage.removeItem(key);
+  }
+
+  // Corrupt JSON is moved aside under `<key>_corrupt` and the fallback returned instead of throwing
+  async getJSON<T>(key: string, fallback: T): Promise<T> {
+    const json = await this.getItem(key);
+    if (!json) return fallback;
+
+    try {
+      const value = JSON.parse(json);
+      if (value === null || value === undefined) return fallback;
+      if (Array.isArray(fallback) && !Array.isArray(value)) {
+        throw new TypeError('Expected a JSON array');
+      }
+      return value;
+    } catch (error) {
+      console.error(`Corrupt data under "${key}", resetting it:`, error);
+      await AsyncStorage.setItem(`${key}_corrupt`, json);
+      await AsyncStorage.removeItem(key);
+      return fallback;
+    }
+  }
+
+  async setJSON(key: string, value: unknown): Promise<void> {
+    await this.setItem(key, JSON.stringify(value));
+  }
+}
+
+export const storageService = new StorageService();
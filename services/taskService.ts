@@ -1,10 +1,45 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { API_BASE_URL, API_CONFIG } from '../config/api';
+import { API_CONFIG } from '../config/api';
+import { apiClient } from './apiClient';
+import {
+  ApiError,
+  ApiMessage,
+  AuthError,
+  NetworkError,
+  RequestCancelledError,
+  TimeoutError,
+  ValidationError,
+} from './apiErrors';
 import { authService } from './authService';
+import { getNextOccurrence, toLocalDateString } from './recurrence';
+import { storageService } from './storageService';
+import { taskStore } from './taskStore';
+
+// Lowest to highest
+export const TASK_PRIORITIES = ['none', 'low', 'medium', 'high', 'urgent'] as const;
+
+export type TaskPriority = typeof TASK_PRIORITIES[number];
+
+export interface ChecklistItem {
+  id: string;
+  title: string;
+  done: boolean;
+}
 
 export interface Task {
   id: number;
   title: string;
+  // Free-form notes in basic markdown
+  description?: string | null;
+  priority?: TaskPriority;
+  tags?: string[];
+  // null for tasks in the Inbox
+  project_id?: number | null;
+  // Ordered steps; the task keeps its own completed flag
+  checklist?: ChecklistItem[];
+  // Complete the task once every checklist item is checked
+  auto_complete?: boolean;
+  // RRULE-style repeat rule, see recurrence.ts; moves to the next occurrence on completion
+  repeat_rule?: string | null;
   completed?: boolean;
   due_date: string | null;
   dueDate?: Date;
@@ -13,6 +48,9 @@ export interface Task {
     username: string;
   };
   userId?: string;
+  updated_at?: string;
+  // Idempotency key the task was created with, echoed back by the server
+  client_request_id?: string;
   isLocal?: boolean;
   needsSync?: boolean;
 }
@@ -26,112 +64,698 @@ export interface TasksResponse {
   data: Task[];
 }
 
+// Changes since the cursor the client sent; servers without delta support return a plain list instead
+export interface TaskDelta {
+  changed: Task[];
+  deleted: number[];
+  cursor?: string;
+}
+
+export interface TaskDeltaResponse {
+  status_code: number;
+  message: {
+    id: string;
+    en: string;
+  };
+  data: Task[] | TaskDelta;
+}
+
 export interface CreateTaskData {
   title: string;
+  description?: string;
+  priority?: TaskPriority;
+  tags?: string[];
+  projectId?: number | null;
+  checklist?: ChecklistItem[];
+  autoComplete?: boolean;
+  repeatRule?: string | null;
   dueDate?: string;
 }
 
+// null clears a field, e.g. when a conflict is settled in favour of an empty server value
 export interface UpdateTaskData {
   title?: string;
+  description?: string | null;
+  priority?: TaskPriority;
+  tags?: string[];
+  projectId?: number | null;
+  checklist?: ChecklistItem[];
+  autoComplete?: boolean;
+  repeatRule?: string | null;
   completed?: boolean;
-  dueDate?: string;
+  dueDate?: string | null;
 }
 
 const TASKS_KEY = 'tasks';
 const OFFLINE_ACTIONS_KEY = 'offline_actions';
+const DEAD_LETTER_KEY = 'dead_letter_actions';
+const CONFLICTS_KEY = 'sync_conflicts';
+const SYNC_CURSOR_KEY = 'tasks_sync_cursor';
+const ETAG_KEY = 'tasks_etag';
+
+// Every key above is stored per account and server, see scopedKey()
+const SCOPED_KEYS = [TASKS_KEY, OFFLINE_ACTIONS_KEY, DEAD_LETTER_KEY, CONFLICTS_KEY, SYNC_CURSOR_KEY, ETAG_KEY];
+
+// Retry policy for queued offline actions
+const MAX_SYNC_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 30 * 60 * 1000;
+
+export type SyncEntity = 'task' | 'project';
 
 export interface OfflineAction {
   id: string;
   type: 'create' | 'update' | 'delete';
+  // Tasks and projects share one queue; missing means 'task'
+  entity?: SyncEntity;
+  // Id of the task, or of the project for project actions
   taskId: number;
   data?: any;
   timestamp: Date;
+  // Failed replays; going offline mid-sync does not count
+  attempts: number;
+  // A request for this action may have reached the server, e.g. one that timed out
+  sent?: boolean;
+  lastError?: string;
+  // Bilingual message from the server for the last failure, shown in the active language
+  lastServerMessage?: ApiMessage;
+  nextRetryAt?: Date;
+  // Sent with creates so a replay of a request the server already handled is not applied twice
+  idempotencyKey?: string;
+  // Server values of the edited fields when the edit was made, used to detect conflicts
+  base?: UpdateTaskData;
+  baseUpdatedAt?: string;
+}
+
+// Outcome of one sync run
+export interface SyncResult {
+  // Set when the run ended early: the server could not be reached, or the session ended
+  stopped?: 'offline' | 'signedOut';
+  // Changes still queued, e.g. waiting for their next retry
+  remaining: number;
+  // Changes moved to the dead-letter list by this run
+  failed: number;
+}
+
+export type ConflictResolution = 'local' | 'server';
+
+export interface TaskConflict {
+  id: string;
+  taskId: number;
+  taskTitle: string;
+  field: keyof UpdateTaskData;
+  localValue: any;
+  serverValue: any;
+  resolution: ConflictResolution;
+  detectedAt: Date;
+}
+
+// Trims tags, drops a leading '#', and removes empties and case-insensitive duplicates
+export function normalizeTags(tags: unknown): string[] {
+  if (!Array.isArray(tags)) return [];
+
+  const seen = new Set<string>();
+  const normalized: string[] = [];
+  tags.forEach(tag => {
+    if (typeof tag !== 'string') return;
+    const value = tag.trim().replace(/^#+/, '').trim();
+    if (!value || seen.has(value.toLowerCase())) return;
+    seen.add(value.toLowerCase());
+    normalized.push(value);
+  });
+  return normalized;
+}
+
+// Keeps well-formed items with a non-empty title, in order
+export function normalizeChecklist(items: unknown): ChecklistItem[] {
+  if (!Array.isArray(items)) return [];
+
+  return items
+    .filter(item => item && typeof item.title === 'string' && item.title.trim())
+    .map((item, index) => ({
+      id: typeof item.id === 'string' && item.id ? item.id : `item-${index}`,
+      title: item.title.trim(),
+      done: !!item.done,
+    }));
+}
+
+// With auto-complete on, a checklist edit that leaves every item checked completes the task as well
+export function withChecklistCompletion(task: Task, updateData: UpdateTaskData): UpdateTaskData {
+  if (updateData.checklist === undefined && updateData.autoComplete === undefined) return updateData;
+  if (updateData.completed !== undefined || task.completed) return updateData;
+
+  const checklist = updateData.checklist ?? task.checklist ?? [];
+  const autoComplete = updateData.autoComplete ?? task.auto_complete;
+  if (!autoComplete || checklist.length === 0 || !checklist.every(item => item.done)) return updateData;
+
+  return { ...updateData, completed: true };
+}
+
+// Replays and discards queued project actions, registered by ProjectService
+export interface ProjectSyncHandler {
+  replay: (action: OfflineAction, actions: OfflineAction[]) => Promise<void>;
+  discard: (action: OfflineAction) => Promise<void>;
+}
+
+// Errors the server will keep returning are surfaced; anything else is queued for sync
+export function shouldQueueOffline(error: unknown): boolean {
+  return !(error instanceof ApiError) || error.retryable;
+}
+
+// Actions for the same task or project must replay in order, so they share a key
+function actionKey(action: OfflineAction): string {
+  return `${action.entity ?? 'task'}:${action.taskId}`;
+}
+
+function wasSent(action: OfflineAction): boolean {
+  return action.attempts > 0 || !!action.sent;
+}
+
+function isTaskAction(action: OfflineAction): boolean {
+  return (action.entity ?? 'task') === 'task';
+}
+
+// A task change that points at a project must also wait for that project's queued changes
+function isBlocked(action: OfflineAction, blockedKeys: Set<string>): boolean {
+  if (blockedKeys.has(actionKey(action))) return true;
+  const projectId = isTaskAction(action) ? action.data?.projectId : undefined;
+  return typeof projectId === 'number' && blockedKeys.has(`project:${projectId}`);
+}
+
+// Runs callbacks one after another, so read-modify-write cycles on stored lists cannot interleave
+export function createLock() {
+  let tail: Promise<unknown> = Promise.resolve();
+  return <T>(callback: () => Promise<T>): Promise<T> => {
+    const run = tail.then(callback, callback);
+    tail = run.catch(() => undefined);
+    return run;
+  };
+}
+
+// Local ids are negative; a project with one has not reached the server yet
+function isLocalProjectId(projectId: number | null | undefined): boolean {
+  return typeof projectId === 'number' && projectId < 0;
 }
 
 class TaskService {
-  private apiUrl = `${API_BASE_URL}${API_CONFIG.ENDPOINTS.TASKS}`;
+  private endpoint = API_CONFIG.ENDPOINTS.TASKS;
+  private projectSyncHandler: ProjectSyncHandler | null = null;
+  private queueLock = createLock();
+  private tasksLock = createLock();
+  // Server ids of synced local tasks and projects, keyed like actionKey(), for changes queued with a stale id
+  private remappedIds = new Map<string, number>();
+
+  setProjectSyncHandler(handler: ProjectSyncHandler): void {
+    this.projectSyncHandler = handler;
+  }
 
   // Convert backend task format to app format
   private convertBackendTask(backendTask: any): Task {
     return {
       ...backendTask,
       dueDate: backendTask.due_date ? new Date(backendTask.due_date) : undefined,
-      userId: backendTask.user?.id?.toString() || '1',
+      userId: backendTask.user?.id?.toString(),
       completed: backendTask.completed || false,
+      priority: TASK_PRIORITIES.includes(backendTask.priority) ? backendTask.priority : 'none',
+      tags: normalizeTags(backendTask.tags),
+      project_id: backendTask.project_id ?? null,
+      checklist: normalizeChecklist(backendTask.checklist),
+      auto_complete: !!backendTask.auto_complete,
+      repeat_rule: backendTask.repeat_rule || null,
     };
   }
 
+  private async scopedKey(key: string): Promise<string> {
+    const scope = await authService.getStorageScope();
+    return `${key}:${scope ?? 'signed_out'}`;
+  }
+
   private async getStoredTasks(): Promise<Task[]> {
-    const tasksJson = await AsyncStorage.getItem(TASKS_KEY);
-    if (!tasksJson) return [];
-    const tasks = JSON.parse(tasksJson);
+    const tasks = await storageService.getJSON<any[]>(await this.scopedKey(TASKS_KEY), []);
     return tasks.map((task: any) => ({
       ...task,
       dueDate: task.due_date ? new Date(task.due_date) : undefined,
     }));
   }
 
+  // dueDate is derived from due_date on read, so only due_date is persisted
   private async storeTasks(tasks: Task[]): Promise<void> {
-    await AsyncStorage.setItem(TASKS_KEY, JSON.stringify(tasks));
+    await storageService.setJSON(await this.scopedKey(TASKS_KEY), tasks.map(({ dueDate, ...task }) => task));
+    taskStore.setTasks(tasks);
   }
 
-  private async getOfflineActions(): Promise<OfflineAction[]> {
-    const actionsJson = await AsyncStorage.getItem(OFFLINE_ACTIONS_KEY);
-    if (!actionsJson) return [];
-    const actions = JSON.parse(actionsJson);
+  // Applies a change to a fresh read of the cache, so concurrent changes to other tasks are not overwritten
+  private async updateStoredTasks(update: (tasks: Task[]) => Task[] | Promise<Task[]>): Promise<Task[]> {
+    return this.tasksLock(async () => {
+      const tasks = await update(await this.getStoredTasks());
+      await this.storeTasks(tasks);
+      return tasks;
+    });
+  }
+
+  // Publishes the cached tasks to the store without touching the network
+  async loadCachedTasks(): Promise<Task[]> {
+    const tasks = await this.getStoredTasks();
+    taskStore.setTasks(tasks);
+    return tasks;
+  }
+
+  private async readActions(key: string): Promise<OfflineAction[]> {
+    const actions = await storageService.getJSON<any[]>(await this.scopedKey(key), []);
     return actions.map((action: any) => ({
       ...action,
       timestamp: new Date(action.timestamp),
+      nextRetryAt: action.nextRetryAt ? new Date(action.nextRetryAt) : undefined,
     }));
   }
 
-  private async storeOfflineAction(action: OfflineAction): Promise<void> {
-    const actions = await this.getOfflineActions();
-    actions.push(action);
-    await AsyncStorage.setItem(OFFLINE_ACTIONS_KEY, JSON.stringify(actions));
+  private async getOfflineActions(): Promise<OfflineAction[]> {
+    return this.readActions(OFFLINE_ACTIONS_KEY);
+  }
+
+  private async saveOfflineActions(actions: OfflineAction[]): Promise<void> {
+    await storageService.setJSON(await this.scopedKey(OFFLINE_ACTIONS_KEY), actions);
   }
 
-  private async clearOfflineActions(): Promise<void> {
-    await AsyncStorage.removeItem(OFFLINE_ACTIONS_KEY);
+  private async storeOfflineAction(action: Omit<OfflineAction, 'attempts'>): Promise<void> {
+    await this.queueLock(async () => {
+      const actions = await this.getOfflineActions();
+      actions.push(this.withServerIds({ ...action, attempts: 0 }));
+      await this.saveOfflineActions(actions);
+    });
+  }
+
+  // Saves the queue a sync is working through, keeping actions queued since it started
+  private async saveSyncProgress(actions: OfflineAction[], startedWith: Set<string>): Promise<void> {
+    await this.queueLock(async () => {
+      const added = (await this.getOfflineActions()).filter(a => !startedWith.has(a.id));
+      await this.saveOfflineActions([...actions, ...added.map(a => this.withServerIds(a))]);
+    });
+  }
+
+  private withServerIds(action: OfflineAction): OfflineAction {
+    const taskId = this.remappedIds.get(actionKey(action)) ?? action.taskId;
+    const projectId = isTaskAction(action) ? this.remappedIds.get(`project:${action.data?.projectId}`) : undefined;
+    if (taskId === action.taskId && projectId === undefined) return action;
+    return {
+      ...action,
+      taskId,
+      data: projectId !== undefined ? { ...action.data, projectId } : action.data,
+    };
+  }
+
+  // Queues a project change behind any task changes already waiting
+  async queueProjectAction(action: Omit<OfflineAction, 'id' | 'attempts' | 'entity'>): Promise<void> {
+    await this.storeOfflineAction({ ...action, id: this.generateId(), entity: 'project' });
+  }
+
+  private async saveDeadLetterActions(actions: OfflineAction[]): Promise<void> {
+    await storageService.setJSON(await this.scopedKey(DEAD_LETTER_KEY), actions);
+  }
+
+  // Merges queued actions per task so each task costs at most one request
+  private compactOfflineActions(actions: OfflineAction[]): OfflineAction[] {
+    const compacted: OfflineAction[] = [];
+    const pendingByTask = new Map<string, OfflineAction>();
+
+    for (const queued of actions) {
+      let action = queued;
+      const previous = pendingByTask.get(actionKey(action));
+
+      // A create that was never attempted cannot have reached the server, so it can still change.
+      // POST /tasks ignores `completed`, which therefore stays a follow-up update.
+      if (previous && action.type === 'update' && previous.type === 'create' && !wasSent(previous)) {
+        const { completed, ...fields } = action.data ?? {};
+        previous.data = { ...previous.data, ...fields };
+        if (completed === undefined) continue;
+        action = { ...action, data: { completed } };
+      }
+
+      if (previous && action.type === 'update' && previous.type === 'update') {
+        // update + update -> update with the merged payload
+        previous.data = { ...previous.data, ...action.data };
+        // The oldest snapshot of each field is the one the server copy should match
+        previous.base = { ...action.base, ...previous.base };
+        previous.baseUpdatedAt = previous.baseUpdatedAt || action.baseUpdatedAt;
+        continue;
+      }
+
+      const key = actionKey(action);
+      const isUnsentCreate = (a: OfflineAction) => a.type === 'create' && !wasSent(a) && actionKey(a) === key;
+      if (action.type === 'delete' && compacted.some(isUnsentCreate)) {
+        // The task never reached the server, so it and everything queued for it cancel out
+        compacted.splice(0, compacted.length, ...compacted.filter(a => actionKey(a) !== key));
+        pendingByTask.delete(key);
+        continue;
+      }
+
+      if (previous && action.type === 'delete' && previous.type === 'update') {
+        const deleteAction = { ...action };
+        compacted[compacted.indexOf(previous)] = deleteAction;
+        pendingByTask.set(key, deleteAction);
+        continue;
+      }
+
+      const copy = { ...action };
+      compacted.push(copy);
+      pendingByTask.set(key, copy);
+    }
+
+    return compacted;
+  }
+
+  // Field values in the same shape as UpdateTaskData so edits, snapshots and server copies compare directly
+  private getFieldValue(task: Task, field: keyof UpdateTaskData): any {
+    switch (field) {
+      case 'title':
+        return task.title;
+      case 'description':
+        return task.description || null;
+      case 'priority':
+        return task.priority || 'none';
+      case 'tags':
+        return task.tags || [];
+      case 'projectId':
+        return task.project_id ?? null;
+      case 'checklist':
+        return task.checklist || [];
+      case 'autoComplete':
+        return !!task.auto_complete;
+      case 'repeatRule':
+        return task.repeat_rule || null;
+      case 'completed':
+        return !!task.completed;
+      case 'dueDate':
+        return task.due_date ? task.due_date.split('T')[0] : null;
+    }
+  }
+
+  private snapshotFields(task: Task, updateData: UpdateTaskData): UpdateTaskData {
+    const base: UpdateTaskData = {};
+    (Object.keys(updateData) as (keyof UpdateTaskData)[]).forEach(<K extends keyof UpdateTaskData>(field: K) => {
+      base[field] = this.getFieldValue(task, field);
+    });
+    return base;
+  }
+
+  private isSameValue(a: any, b: any): boolean {
+    if (Array.isArray(a) || Array.isArray(b)) {
+      const left: any[] = a || [];
+      const right: any[] = b || [];
+      // Checklist items are plain objects, so they compare by content
+      return left.length === right.length &&
+        left.every((value, index) => JSON.stringify(value) === JSON.stringify(right[index]));
+    }
+    return (a ?? null) === (b ?? null);
+  }
+
+  async getConflicts(): Promise<TaskConflict[]> {
+    const conflicts = await storageService.getJSON<any[]>(await this.scopedKey(CONFLICTS_KEY), []);
+    return conflicts.map((conflict: any) => ({
+      ...conflict,
+      detectedAt: new Date(conflict.detectedAt),
+    }));
+  }
+
+  private async saveConflicts(conflicts: TaskConflict[]): Promise<void> {
+    await storageService.setJSON(await this.scopedKey(CONFLICTS_KEY), conflicts);
+  }
+
+  private async fetchServerTask(taskId: number): Promise<Task> {
+    const { data } = await apiClient.get<Task>(`${this.endpoint}/${taskId}`);
+    return this.convertBackendTask(data);
+  }
+
+  /**
+   * Compares an edit against the current server copy. Fields the server changed since the
+   * edit's snapshot are conflicts, settled last-writer-wins and recorded for review.
+   * Returns the payload that should still be sent.
+   */
+  private async resolveConflicts(
+    taskId: number,
+    updateData: UpdateTaskData,
+    base: UpdateTaskData | undefined,
+    baseUpdatedAt: string | undefined,
+    editedAt: Date
+  ): Promise<{ payload: UpdateTaskData; serverTask: Task | null }> {
+    if (!base) return { payload: updateData, serverTask: null };
+
+    let serverTask: Task;
+    try {
+      serverTask = await this.fetchServerTask(taskId);
+    } catch (error) {
+      // Servers without GET /tasks/:id cannot be checked, so the edit is sent as is
+      if (error instanceof ValidationError && error.status === 404) return { payload: updateData, serverTask: null };
+      throw error;
+    }
+    if (baseUpdatedAt && serverTask.updated_at === baseUpdatedAt) {
+      // Server copy has not moved since the edit was made
+      return { payload: updateData, serverTask };
+    }
+
+    const serverUpdatedAt = serverTask.updated_at ? new Date(serverTask.updated_at) : null;
+    const payload: UpdateTaskData = { ...updateData };
+    const detected: TaskConflict[] = [];
+
+    (Object.keys(updateData) as (keyof UpdateTaskData)[]).forEach(field => {
+      if (!(field in base)) return;
+
+      const localValue = updateData[field];
+      if (this.isSameValue(localValue, base[field])) {
+        // Sent along with the edit but not changed by it, so the server copy stands
+        delete payload[field];
+        return;
+      }
+
+      const serverValue = this.getFieldValue(serverTask, field);
+      if (this.isSameValue(serverValue, base[field]) || this.isSameValue(serverValue, localValue)) return;
+
+      // Without an updated-at from the server the edit on this device is treated as the latest
+      const resolution: ConflictResolution = serverUpdatedAt && serverUpdatedAt > editedAt ? 'server' : 'local';
+      if (resolution === 'server') {
+        delete payload[field];
+      }
+
+      detected.push({
+        id: this.generateId(),
+        taskId,
+        taskTitle: serverTask.title,
+        field,
+        localValue,
+        serverValue,
+        resolution,
+        detectedAt: new Date(),
+      });
+    });
+
+    if (detected.length > 0) {
+      console.warn(`Detected ${detected.length} conflicts on task ${taskId}:`, detected);
+      const conflicts = await this.getConflicts();
+      await this.saveConflicts([...conflicts, ...detected]);
+    }
+
+    return { payload, serverTask };
+  }
+
+  // Overrides an automatic resolution by re-applying the value the user picked
+  async resolveConflict(conflictId: string, choice: ConflictResolution): Promise<void> {
+    const conflicts = await this.getConflicts();
+    const conflict = conflicts.find(c => c.id === conflictId);
+    if (!conflict) return;
+
+    if (choice !== conflict.resolution) {
+      const value = choice === 'local' ? conflict.localValue : conflict.serverValue;
+      await this.updateTask(conflict.taskId, { [conflict.field]: value });
+    }
+
+    await this.saveConflicts(conflicts.filter(c => c.id !== conflictId));
+  }
+
+  async dismissConflict(conflictId: string): Promise<void> {
+    const conflicts = await this.getConflicts();
+    await this.saveConflicts(conflicts.filter(c => c.id !== conflictId));
+  }
+
+  private getRetryDelay(attempts: number): number {
+    return Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, attempts - 1), RETRY_MAX_DELAY_MS);
   }
 
   private generateId(): string {
     return 'local_' + Date.now() + '_' + Math.random().toString(36).substr(2, 9);
   }
 
+  private generateUuid(): string {
+    return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, c => {
+      const r = Math.random() * 16 | 0;
+      return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+    });
+  }
+
+  private postCreate(taskData: CreateTaskData, idempotencyKey: string) {
+    return apiClient.post<any>(
+      this.endpoint,
+      { ...taskData, client_request_id: idempotencyKey },
+      { headers: { 'Idempotency-Key': idempotencyKey } }
+    );
+  }
+
+  // Older servers omit the id of a created task, so it is looked up by its idempotency key
+  private async findCreatedTask(idempotencyKey: string): Promise<Task | undefined> {
+    const tasks = await this.fetchTasks();
+    return tasks.find(t => !t.isLocal && t.client_request_id === idempotencyKey);
+  }
+
+  // Local ids are negative so they can never collide with a server id
+  private generateLocalTaskId(): number {
+    return -(Date.now() * 1000 + Math.floor(Math.random() * 1000));
+  }
+
+  // Point the cached task and every queued action at the id the server assigned
+  private async remapTaskId(localId: number, serverId: number, actions: OfflineAction[]): Promise<void> {
+    console.log('Remapping local task id', localId, 'to server id', serverId);
+    this.remappedIds.set(`task:${localId}`, serverId);
+
+    actions.forEach(action => {
+      if (isTaskAction(action) && action.taskId === localId) {
+        action.taskId = serverId;
+      }
+    });
+
+    await this.updateStoredTasks(tasks => {
+      if (!tasks.some(t => t.id === localId)) return tasks;
+      // A refresh may already have brought in the server copy; the local one carries the queued changes
+      return tasks
+        .filter(t => t.id !== serverId)
+        .map(t => (t.id === localId ? { ...t, id: serverId, isLocal: false } : t));
+    });
+  }
+
+  // Point cached tasks and queued task changes at the id the server assigned to a project
+  async remapProjectId(localId: number, serverId: number, actions: OfflineAction[]): Promise<void> {
+    this.remappedIds.set(`project:${localId}`, serverId);
+    actions.forEach(action => {
+      if (isTaskAction(action) && action.data?.projectId === localId) {
+        action.data.projectId = serverId;
+      }
+    });
+
+    await this.updateStoredTasks(tasks =>
+      tasks.map(t => (t.project_id === localId ? { ...t, project_id: serverId } : t))
+    );
+  }
+
+  // The server moves a deleted project's tasks to the Inbox; this does the same for the cache and queue
+  async moveTasksToInbox(projectId: number): Promise<void> {
+    await this.queueLock(async () => {
+      const actions = await this.getOfflineActions();
+      const affected = actions.filter(a => isTaskAction(a) && a.data?.projectId === projectId);
+      if (affected.length > 0) {
+        affected.forEach(action => {
+          action.data = { ...action.data, projectId: null };
+        });
+        await this.saveOfflineActions(actions);
+      }
+    });
+
+    await this.updateStoredTasks(tasks =>
+      tasks.map(t => (t.project_id === projectId ? { ...t, project_id: null } : t))
+    );
+  }
+
+  /**
+   * Merges server tasks into the cache. A full list replaces it, a delta patches it.
+   * Tasks with queued changes keep their local copy until those changes are synced.
+   */
+  private async mergeServerTasks(
+    storedTasks: Task[],
+    changed: Task[],
+    deletedIds: number[],
+    isFullList: boolean
+  ): Promise<Task[]> {
+    const queuedActions = await this.getOfflineActions();
+    const taskActions = queuedActions.filter(isTaskAction);
+    const pendingIds = new Set(taskActions.map(a => a.taskId));
+    const deletedLocally = new Set(taskActions.filter(a => a.type === 'delete').map(a => a.taskId));
+    // The server moves these projects' tasks to the Inbox once the delete replays
+    const deletedProjects = new Set(
+      queuedActions.filter(a => !isTaskAction(a) && a.type === 'delete').map(a => a.taskId)
+    );
+    const keepLocal = (task: Task) => task.isLocal || pendingIds.has(task.id);
+
+    const merged = new Map<number, Task>();
+    if (!isFullList) {
+      storedTasks.forEach(task => merged.set(task.id, task));
+    }
+
+    changed.forEach(task => {
+      // Still on the server until the queued delete replays
+      if (deletedLocally.has(task.id)) return;
+      const stored = storedTasks.find(t => t.id === task.id);
+      if (stored && keepLocal(stored)) {
+        merged.set(task.id, stored);
+      } else {
+        const inDeletedProject = task.project_id != null && deletedProjects.has(task.project_id);
+        merged.set(task.id, inDeletedProject ? { ...task, project_id: null } : task);
+      }
+    });
+
+    deletedIds.forEach(id => {
+      const stored = merged.get(id);
+      if (!stored || !keepLocal(stored)) merged.delete(id);
+    });
+
+    // Tasks whose create is still queued are not on the server yet
+    storedTasks.filter(t => t.isLocal).forEach(task => merged.set(task.id, task));
+
+    return Array.from(merged.values());
+  }
+
   async fetchTasks(): Promise<Task[]> {
     try {
-      const token = await authService.getToken();
-      if (!token) throw new Error('No auth token');
-
-      console.log('Fetching tasks from:', this.apiUrl);
+      const cursorKey = await this.scopedKey(SYNC_CURSOR_KEY);
+      const etagKey = await this.scopedKey(ETAG_KEY);
+      // Without a cached list a delta or 304 has nothing to apply to, e.g. after a corrupt cache was reset
+      const hasCache = (await this.getStoredTasks()).length > 0;
+      const cursor = hasCache ? await storageService.getItem(cursorKey) : null;
+      const etag = hasCache ? await storageService.getItem(etagKey) : null;
+      const path = cursor ? `${this.endpoint}?since=${encodeURIComponent(cursor)}` : this.endpoint;
 
-      const response = await fetch(this.apiUrl, {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
+      const result = await apiClient.get<Task[] | TaskDelta>(path, {
+        headers: etag ? { 'If-None-Match': etag } : undefined,
       });
 
-      console.log('Tasks response status:', response.status);
+      if (result.notModified) {
+        console.log('Tasks unchanged since last sync');
+        return await this.loadCachedTasks();
+      }
 
-      if (!response.ok) throw new Error('Failed to fetch tasks');
+      const isFullList = Array.isArray(result.data);
+      const delta: TaskDelta = Array.isArray(result.data)
+        ? { changed: result.data, deleted: [] }
+        : result.data;
 
-      const apiResponse: TasksResponse = await response.json();
-      console.log('Tasks API response:', apiResponse);
-      
-      if (apiResponse.status_code !== 200) {
-        throw new Error('API returned error status');
+      const nextCursor = delta.cursor || result.headers.get('X-Sync-Cursor');
+      const nextEtag = result.headers.get('ETag');
+      if (nextCursor) await storageService.setItem(cursorKey, nextCursor);
+      else await storageService.removeItem(cursorKey);
+      if (nextEtag) await storageService.setItem(etagKey, nextEtag);
+      else await storageService.removeItem(etagKey);
+
+      if (!isFullList && delta.changed.length === 0 && delta.deleted.length === 0) {
+        console.log('Empty task delta, keeping cache');
+        return await this.loadCachedTasks();
       }
 
-      const convertedTasks = apiResponse.data.map(task => this.convertBackendTask(task));
-      await this.storeTasks(convertedTasks);
+      const convertedTasks = delta.changed.map(task => this.convertBackendTask(task));
+      const mergedTasks = await this.updateStoredTasks(storedTasks =>
+        this.mergeServerTasks(storedTasks, convertedTasks, delta.deleted, isFullList)
+      );
       
-      console.log('Tasks fetched and stored:', convertedTasks.length);
-      return convertedTasks;
+      console.log(`Tasks ${isFullList ? 'fetched' : 'delta applied'} and stored:`, mergedTasks.length);
+      return mergedTasks;
     } catch (error) {
       console.log('Failed to fetch from backend, using local storage:', error);
-      return await this.getStoredTasks();
+      return await this.loadCachedTasks();
     }
   }
 
@@ -142,10 +766,18 @@ class TaskService {
     console.log('Creating task with data:', taskData);
 
     // Create local task for offline support
-    const localId = parseInt(this.generateId().replace('local_', '').substring(0, 8), 10);
+    const localId = this.generateLocalTaskId();
+    const idempotencyKey = this.generateUuid();
     const newTask: Task = {
       id: localId,
       title: taskData.title,
+      description: taskData.description || null,
+      priority: taskData.priority || 'none',
+      tags: taskData.tags || [],
+      project_id: taskData.projectId ?? null,
+      checklist: taskData.checklist || [],
+      auto_complete: !!taskData.autoComplete,
+      repeat_rule: taskData.repeatRule || null,
       completed: false,
       due_date: taskData.dueDate || null,
       dueDate: taskData.dueDate ? new Date(taskData.dueDate) : undefined,
@@ -154,81 +786,48 @@ class TaskService {
         username: user.username,
       },
       userId: user.id,
+      client_request_id: idempotencyKey,
       isLocal: true,
       needsSync: true,
     };
 
+    // Whether the server may already have the task, in which case the queued create must not change
+    let sent = false;
+
     try {
-      const token = await authService.getToken();
-      if (!token) throw new Error('No auth token');
-
-      console.log('Sending create request to:', this.apiUrl);
-      console.log('Request payload:', JSON.stringify(taskData));
-
-      const response = await fetch(this.apiUrl, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(taskData),
-      });
+      if (isLocalProjectId(taskData.projectId)) {
+        // Queued behind the project's create so it replays with the server id
+        throw new Error('Project has not been synced yet');
+      }
 
-      console.log('Create response status:', response.status);
-
-      if (response.ok) {
-        const apiResponse = await response.json();
-        console.log('Task created successfully:', apiResponse);
-        
-        if (apiResponse.status_code === 200 || apiResponse.status_code === 201) {
-          console.log('Refreshing tasks to get newly created task...');
-          
-          // Get fresh tasks to find the newly created one
-          try {
-            const freshTasks = await this.fetchTasks();
-            const newlyCreatedTask = freshTasks.find(t => 
-              t.title === apiResponse.data.title && 
-              t.due_date === apiResponse.data.due_date
-            );
-            
-            if (newlyCreatedTask) {
-              console.log('Found newly created task:', newlyCreatedTask);
-              return newlyCreatedTask;
-            } else {
-              console.warn('Could not find newly created task in fresh tasks list');
-            }
-          } catch (fetchError) {
-            console.warn('Failed to fetch fresh tasks after creation:', fetchError);
-          }
-          
-          // Fallback: create a temporary task object
-          const createdTask: Task = {
-            id: Date.now(), // Temporary ID
-            title: apiResponse.data.title,
-            completed: false,
-            due_date: apiResponse.data.due_date, // Backend response uses due_date
-            dueDate: apiResponse.data.due_date ? new Date(apiResponse.data.due_date) : undefined,
-            user: {
-              id: apiResponse.data.user.id,
-              username: user.username,
-            },
-            userId: user.id,
-          };
-          
-          console.log('Using fallback created task:', createdTask);
-          return createdTask;
-        }
+      const { data } = await this.postCreate(taskData, idempotencyKey);
+      sent = true;
+      let createdTask: Task | undefined;
+
+      if (typeof data?.id === 'number') {
+        createdTask = this.convertBackendTask({
+          ...data,
+          user: data.user || newTask.user,
+        });
+      } else {
+        createdTask = await this.findCreatedTask(idempotencyKey);
       }
-      
-      console.error('Create request failed with status:', response.status);
-      throw new Error('Backend creation failed');
+
+      if (createdTask) {
+        await this.updateStoredTasks(tasks => [...tasks.filter(t => t.id !== createdTask!.id), createdTask!]);
+        console.log('Created task reconciled:', createdTask.id);
+        return createdTask;
+      }
+
+      // The server has the task but we cannot identify it; a queued replay with
+      // the same key resolves it without creating a duplicate
+      throw new Error('Could not reconcile newly created task');
     } catch (error) {
+      if (!shouldQueueOffline(error)) throw error;
       console.log('Creating task offline due to error:', error);
       
       // Store locally and queue for sync
-      const tasks = await this.getStoredTasks();
-      tasks.push(newTask);
-      await this.storeTasks(tasks);
+      await this.updateStoredTasks(tasks => [...tasks, newTask]);
       
       await this.storeOfflineAction({
         id: this.generateId(),
@@ -236,6 +835,8 @@ class TaskService {
         taskId: newTask.id,
         data: taskData,
         timestamp: new Date(),
+        idempotencyKey,
+        sent: sent || error instanceof TimeoutError,
       });
       
       console.log('Task stored locally for offline sync:', newTask);
@@ -243,71 +844,114 @@ class TaskService {
     }
   }
 
-  async updateTask(taskId: number, updateData: UpdateTaskData): Promise<Task> {
-    const tasks = await this.getStoredTasks();
-    const taskIndex = tasks.findIndex(t => t.id === taskId);
-    
-    if (taskIndex === -1) {
+  async updateTask(taskId: number, changes: UpdateTaskData): Promise<Task> {
+    const currentTask = (await this.getStoredTasks()).find(t => t.id === taskId);
+    if (!currentTask) {
       throw new Error('Task not found');
     }
 
-    console.log('Updating task', taskId, 'with data:', updateData);
+    let updateData = withChecklistCompletion(currentTask, changes);
+    const isCompleting = updateData.completed === true && !currentTask.completed;
+    if (!isCompleting || !currentTask.repeat_rule) {
+      return this.saveUpdate(taskId, updateData);
+    }
+
+    // The rule moves on to the next occurrence, so un-completing this one cannot repeat it twice
+    const next = getNextOccurrence(currentTask.repeat_rule, currentTask.due_date, toLocalDateString(new Date()));
+    updateData = { ...updateData, repeatRule: null };
+    const completedTask = await this.saveUpdate(taskId, updateData);
+
+    if (next) {
+      await this.createTask({
+        title: currentTask.title,
+        description: currentTask.description || undefined,
+        priority: currentTask.priority,
+        tags: currentTask.tags,
+        projectId: currentTask.project_id ?? null,
+        checklist: currentTask.checklist?.map(item => ({ ...item, done: false })),
+        autoComplete: currentTask.auto_complete,
+        repeatRule: next.repeatRule,
+        dueDate: next.dueDate,
+      });
+      console.log('Created next occurrence of recurring task', taskId, 'due', next.dueDate);
+    }
+    return completedTask;
+  }
 
-    const updatedTask: Task = {
-      ...tasks[taskIndex],
+  private applyLocalUpdate(task: Task, updateData: UpdateTaskData): Task {
+    return {
+      ...task,
       ...updateData,
-      dueDate: updateData.dueDate ? new Date(updateData.dueDate) : tasks[taskIndex].dueDate,
+      due_date: updateData.dueDate !== undefined ? updateData.dueDate : task.due_date,
+      dueDate: updateData.dueDate !== undefined
+        ? (updateData.dueDate ? new Date(updateData.dueDate) : undefined)
+        : task.dueDate,
+      project_id: updateData.projectId !== undefined ? updateData.projectId : task.project_id,
+      auto_complete: updateData.autoComplete ?? task.auto_complete,
+      repeat_rule: updateData.repeatRule !== undefined ? updateData.repeatRule : task.repeat_rule,
       needsSync: true,
     };
+  }
+
+  private async saveUpdate(taskId: number, updateData: UpdateTaskData): Promise<Task> {
+    const currentTask = (await this.getStoredTasks()).find(t => t.id === taskId);
+    if (!currentTask) {
+      throw new Error('Task not found');
+    }
+
+    console.log('Updating task', taskId, 'with data:', updateData);
+
+    const replaceTask = (task: Task) =>
+      this.updateStoredTasks(tasks => tasks.map(t => (t.id === taskId ? task : t)));
+
+    // Local-only tasks have no server copy to conflict with
+    const base = currentTask.isLocal ? undefined : this.snapshotFields(currentTask, updateData);
+    const editedAt = new Date();
 
     try {
-      const token = await authService.getToken();
-      if (!token) throw new Error('No auth token');
-
-      console.log('Sending update request to:', `${this.apiUrl}/${taskId}`);
-      console.log('Update payload:', JSON.stringify(updateData));
-
-      // Try to update on backend
-      const response = await fetch(`${this.apiUrl}/${taskId}`, {
-        method: 'PUT',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(updateData),
-      });
+      if (currentTask.isLocal) {
+        // The server has no such task yet; the queued change merges into its create
+        throw new Error('Task has not been synced yet');
+      }
+      if (isLocalProjectId(updateData.projectId)) {
+        throw new Error('Project has not been synced yet');
+      }
 
-      console.log('Update response status:', response.status);
-
-      if (response.ok) {
-        const apiResponse = await response.json();
-        console.log('Task updated successfully:', apiResponse);
-        
-        if (apiResponse.status_code === 200) {
-          // Backend returns the full updated task
-          const backendTask = this.convertBackendTask(apiResponse.data);
-          tasks[taskIndex] = backendTask;
-          await this.storeTasks(tasks);
-          console.log('Updated task from backend:', backendTask);
-          return backendTask;
-        }
+      const { payload, serverTask } = await this.resolveConflicts(
+        taskId, updateData, base, currentTask.updated_at, editedAt
+      );
+
+      if (serverTask && Object.keys(payload).length === 0) {
+        // Nothing left to send: the edit changed nothing or lost every field to a newer server change
+        await replaceTask(serverTask);
+        return serverTask;
       }
-      
-      console.error('Update request failed with status:', response.status);
-      throw new Error('Backend update failed');
+
+      // Backend returns the full updated task
+      const { data } = await apiClient.put<Task>(`${this.endpoint}/${taskId}`, payload);
+      const backendTask = this.convertBackendTask(data);
+      await replaceTask(backendTask);
+      return backendTask;
     } catch (error) {
+      if (!shouldQueueOffline(error)) throw error;
       console.log('Updating task offline due to error:', error);
       
-      // Update locally and queue for sync
-      tasks[taskIndex] = updatedTask;
-      await this.storeTasks(tasks);
+      // Update locally and queue for sync; applied to the latest copy in case another change landed meanwhile
+      let updatedTask = this.applyLocalUpdate(currentTask, updateData);
+      await this.updateStoredTasks(tasks => tasks.map(t => {
+        if (t.id !== taskId) return t;
+        updatedTask = this.applyLocalUpdate(t, updateData);
+        return updatedTask;
+      }));
       
       await this.storeOfflineAction({
         id: this.generateId(),
         type: 'update',
         taskId: taskId,
         data: updateData,
-        timestamp: new Date(),
+        timestamp: editedAt,
+        base,
+        baseUpdatedAt: currentTask.updated_at,
       });
       
       console.log('Task updated locally for offline sync:', updatedTask);
@@ -316,51 +960,35 @@ class TaskService {
   }
 
   async deleteTask(taskId: number): Promise<void> {
-    const tasks = await this.getStoredTasks();
-    const taskIndex = tasks.findIndex(t => t.id === taskId);
-    
-    if (taskIndex === -1) {
+    const task = (await this.getStoredTasks()).find(t => t.id === taskId);
+    if (!task) {
       throw new Error('Task not found');
     }
 
     console.log('Deleting task:', taskId);
 
-    try {
-      const token = await authService.getToken();
-      if (!token) throw new Error('No auth token');
-
-      console.log('Sending delete request to:', `${this.apiUrl}/${taskId}`);
-
-      // Try to delete on backend
-      const response = await fetch(`${this.apiUrl}/${taskId}`, {
-        method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      });
-
-      console.log('Delete response status:', response.status);
+    const removeTask = () => this.updateStoredTasks(tasks => tasks.filter(t => t.id !== taskId));
 
-      if (response.ok) {
-        const apiResponse = await response.json();
-        console.log('Task deleted successfully:', apiResponse);
-        
-        if (apiResponse.status_code === 200) {
-          tasks.splice(taskIndex, 1);
-          await this.storeTasks(tasks);
-          console.log('Task removed from local storage');
-          return;
-        }
+    try {
+      if (task.isLocal) {
+        // The server has no such task yet; the queued delete cancels its create
+        throw new Error('Task has not been synced yet');
       }
-      
-      console.error('Delete request failed with status:', response.status);
-      throw new Error('Backend deletion failed');
+
+      await apiClient.delete(`${this.endpoint}/${taskId}`);
+      await removeTask();
+      return;
     } catch (error) {
+      if (error instanceof ValidationError && error.status === 404) {
+        // Already gone on the server
+        await removeTask();
+        return;
+      }
+      if (!shouldQueueOffline(error)) throw error;
       console.log('Deleting task offline due to error:', error);
       
       // Mark as deleted locally and queue for sync
-      tasks.splice(taskIndex, 1);
-      await this.storeTasks(tasks);
+      await removeTask();
       
       await this.storeOfflineAction({
         id: this.generateId(),
@@ -373,81 +1001,204 @@ class TaskService {
     }
   }
 
-  async syncOfflineChanges(): Promise<void> {
-    const actions = await this.getOfflineActions();
-    const token = await authService.getToken();
+  // Replays a single queued action, throwing an ApiError unless the server accepted it
+  private async replayAction(action: OfflineAction, actions: OfflineAction[]): Promise<void> {
+    if (action.entity === 'project') {
+      // Left in the queue if project support has not loaded yet
+      if (!this.projectSyncHandler) throw new Error('Project sync is not available');
+      await this.projectSyncHandler.replay(action, actions);
+      return;
+    }
+
+    switch (action.type) {
+      case 'create': {
+        const { data } = await this.postCreate(action.data, action.idempotencyKey!);
+        const serverId = typeof data?.id === 'number'
+          ? data.id
+          : (await this.findCreatedTask(action.idempotencyKey!))?.id;
+        if (serverId === undefined) {
+          // Retried with the same key, which the server resolves without a duplicate
+          throw new Error('Could not reconcile created task');
+        }
+
+        // Later queued actions still reference the local id
+        if (serverId !== action.taskId) {
+          await this.remapTaskId(action.taskId, serverId, actions);
+        }
+        break;
+      }
+
+      case 'update': {
+        const { payload } = await this.resolveConflicts(
+          action.taskId, action.data, action.base, action.baseUpdatedAt, action.timestamp
+        );
+        if (Object.keys(payload).length === 0) {
+          console.log('Skipping update, nothing left to send:', action.taskId);
+          return;
+        }
+
+        await apiClient.put(`${this.endpoint}/${action.taskId}`, payload);
+        break;
+      }
+
+      case 'delete':
+        try {
+          await apiClient.delete(`${this.endpoint}/${action.taskId}`);
+        } catch (error) {
+          // Already gone, e.g. an earlier attempt went through or another device deleted it
+          if (!(error instanceof ValidationError && error.status === 404)) throw error;
+        }
+        break;
+    }
+
+    console.log(`Sync ${action.type} successful:`, action.taskId);
+  }
+
+  async syncOfflineChanges(): Promise<SyncResult> {
+    const queuedActions = await this.getOfflineActions();
+    const isAuthenticated = await authService.isAuthenticated();
     
-    if (!token || actions.length === 0) return;
+    if (!isAuthenticated) return { stopped: 'signedOut', remaining: queuedActions.length, failed: 0 };
+    if (queuedActions.length === 0) return { remaining: 0, failed: 0 };
+
+    // Anything else in the queue by the time progress is saved was added during this sync
+    const startedWith = new Set(queuedActions.map(a => a.id));
+    const actions = this.compactOfflineActions(queuedActions);
+    if (actions.length !== queuedActions.length) {
+      console.log(`Compacted ${queuedActions.length} offline actions into ${actions.length}`);
+      await this.saveSyncProgress(actions, startedWith);
+    }
+    if (actions.length === 0) {
+      await this.fetchTasks();
+      return { remaining: 0, failed: 0 };
+    }
 
     console.log(`Syncing ${actions.length} offline actions...`);
 
-    for (const action of actions) {
+    const remaining: OfflineAction[] = [];
+    let failed = 0;
+    const now = Date.now();
+
+    // Actions for a task must replay in order, so one waiting action holds back the rest
+    const blockedKeys = new Set((await this.getDeadLetterActions()).map(actionKey));
+
+    for (let i = 0; i < actions.length; i++) {
+      const action = actions[i];
+
+      if (isBlocked(action, blockedKeys) || (action.nextRetryAt && action.nextRetryAt.getTime() > now)) {
+        blockedKeys.add(actionKey(action));
+        remaining.push(action);
+        continue;
+      }
+
       try {
         console.log('Syncing action:', action.type, action.taskId);
-        
-        switch (action.type) {
-          case 'create':
-            const createResponse = await fetch(this.apiUrl, {
-              method: 'POST',
-              headers: {
-                'Authorization': `Bearer ${token}`,
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify(action.data),
-            });
-            
-            if (createResponse.ok) {
-              const createResult = await createResponse.json();
-              console.log('Sync create successful:', createResult);
-            }
-            break;
-            
-          case 'update':
-            const updateResponse = await fetch(`${this.apiUrl}/${action.taskId}`, {
-              method: 'PUT',
-              headers: {
-                'Authorization': `Bearer ${token}`,
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify(action.data),
-            });
-            
-            if (updateResponse.ok) {
-              const updateResult = await updateResponse.json();
-              console.log('Sync update successful:', updateResult);
-            }
-            break;
-            
-          case 'delete':
-            const deleteResponse = await fetch(`${this.apiUrl}/${action.taskId}`, {
-              method: 'DELETE',
-              headers: {
-                'Authorization': `Bearer ${token}`,
-              },
-            });
-            
-            if (deleteResponse.ok) {
-              const deleteResult = await deleteResponse.json();
-              console.log('Sync delete successful:', deleteResult);
-            }
-            break;
-        }
+        await this.replayAction(action, actions);
       } catch (error) {
-        console.error('Failed to sync action:', action, error);
+        if (error instanceof RequestCancelledError || (error instanceof AuthError && error.status !== 403)) {
+          // The session ended; the queue already holds this action and the rest for after re-login
+          return { stopped: 'signedOut', remaining: remaining.length + actions.length - i, failed };
+        }
+        if (error instanceof NetworkError) {
+          // Offline or unreachable, so the rest would fail the same way; try again on the next sync
+          const unsent = error instanceof TimeoutError ? { ...action, sent: true } : action;
+          await this.saveSyncProgress([...remaining, unsent, ...actions.slice(i + 1)], startedWith);
+          console.log('Sync stopped, server unreachable:', error.message);
+          return { stopped: 'offline', remaining: remaining.length + actions.length - i, failed };
+        }
+
+        const message = error instanceof Error ? error.message : String(error);
+        const attempts = action.attempts + 1;
+        const failedAction: OfflineAction = {
+          ...action,
+          attempts,
+          lastError: message,
+          lastServerMessage: error instanceof ApiError ? error.serverMessage : undefined,
+          nextRetryAt: new Date(Date.now() + this.getRetryDelay(attempts)),
+        };
+        blockedKeys.add(actionKey(action));
+
+        if (!shouldQueueOffline(error) || attempts >= MAX_SYNC_ATTEMPTS) {
+          console.error('Moving action to dead-letter list:', failedAction);
+          failed++;
+          await this.queueLock(async () => {
+            await this.saveDeadLetterActions([...(await this.getDeadLetterActions()), failedAction]);
+          });
+        } else {
+          console.warn(`Sync action failed (attempt ${attempts}), retrying later:`, message);
+          remaining.push(failedAction);
+        }
       }
+
+      // Persist progress so a crash never replays an action the server already accepted
+      await this.saveSyncProgress([...remaining, ...actions.slice(i + 1)], startedWith);
     }
-    
-    // Clear offline actions after successful sync
-    await this.clearOfflineActions();
-    console.log('Offline actions cleared after sync');
+
+    console.log(`Sync finished, ${remaining.length} actions still queued`);
     
     // Refresh tasks from backend
     await this.fetchTasks();
     console.log('Tasks refreshed after sync');
+    return { remaining: remaining.length, failed };
+  }
+
+  async getPendingActions(): Promise<OfflineAction[]> {
+    return this.getOfflineActions();
+  }
+
+  // Queued plus dead-lettered changes that have not reached the server
+  async getUnsyncedActionCount(): Promise<number> {
+    const [pending, deadLetters] = await Promise.all([this.getOfflineActions(), this.getDeadLetterActions()]);
+    return pending.length + deadLetters.length;
+  }
+
+  // Removes everything cached for the signed-in account, including unsynced changes
+  async clearUserData(): Promise<void> {
+    for (const key of SCOPED_KEYS) {
+      await storageService.removeItem(await this.scopedKey(key));
+    }
+  }
+
+  async getDeadLetterActions(): Promise<OfflineAction[]> {
+    return this.readActions(DEAD_LETTER_KEY);
+  }
+
+  // Moves a dead-lettered action back into the queue with a fresh retry budget; the caller starts the sync
+  async retryDeadLetterAction(actionId: string): Promise<void> {
+    await this.queueLock(async () => {
+      const deadLetters = await this.getDeadLetterActions();
+      const action = deadLetters.find(a => a.id === actionId);
+      if (!action) return;
+
+      const actions = await this.getOfflineActions();
+      actions.push({ ...action, attempts: 0, sent: wasSent(action), lastError: undefined, lastServerMessage: undefined, nextRetryAt: undefined });
+      actions.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+      await this.saveOfflineActions(actions);
+      await this.saveDeadLetterActions(deadLetters.filter(a => a.id !== actionId));
+    });
+  }
+
+  async discardDeadLetterAction(actionId: string): Promise<void> {
+    const action = await this.queueLock(async () => {
+      const deadLetters = await this.getDeadLetterActions();
+      await this.saveDeadLetterActions(deadLetters.filter(a => a.id !== actionId));
+      return deadLetters.find(a => a.id === actionId);
+    });
+    if (!action) return;
+
+    if (action.entity === 'project') {
+      await this.projectSyncHandler?.discard(action);
+      return;
+    }
+
+    // A discarded create means the task will never exist on the server
+    if (action.type === 'create') {
+      await this.updateStoredTasks(tasks => tasks.filter(t => t.id !== action.taskId));
+    }
   }
 
   async getDueTasks(): Promise<Task[]> {
-    const tasks = await this.getStoredTasks();
+    const tasks = taskStore.isHydrated() ? taskStore.getTasks() : await this.getStoredTasks();
     const now = new Date();
     const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
     
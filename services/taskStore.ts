@@ -0,0 +1,96 @@
+import { Task } from './taskService';
+
+type TaskStoreListener = () => void;
+
+/**
+ * In-memory copy of the signed-in user's tasks. TaskService publishes every write
+ * here, and screens subscribe through useTasks/useTask instead of refetching.
+ *
+ * Optimistic changes sit in an overlay on top of the published tasks until the
+ * service call settles. Settling drops the overlay: on success the service has
+ * published the confirmed task by then, on failure the original shows again.
+ */
+class TaskStore {
+  private baseTasks: Task[] = [];
+  private optimistic = new Map<number, Task | null>();
+  private tasks: Task[] = [];
+  private hydrated = false;
+  private listeners = new Set<TaskStoreListener>();
+
+  getTasks(): Task[] {
+    return this.tasks;
+  }
+
+  getTask(taskId: number): Task | undefined {
+    return this.tasks.find(task => task.id === taskId);
+  }
+
+  isHydrated(): boolean {
+    return this.hydrated;
+  }
+
+  isPending(taskId: number): boolean {
+    return this.optimistic.has(taskId);
+  }
+
+  setTasks(tasks: Task[]): void {
+    this.baseTasks = tasks;
+    this.hydrated = true;
+    this.rebuild();
+  }
+
+  // Shows `task` in place of the stored one (null hides it) until settled
+  applyOptimistic(taskId: number, task: Task | null): void {
+    this.optimistic.set(taskId, task);
+    this.rebuild();
+  }
+
+  settleOptimistic(taskId: number): void {
+    if (this.optimistic.delete(taskId)) {
+      this.rebuild();
+    }
+  }
+
+  clear(): void {
+    this.baseTasks = [];
+    this.optimistic.clear();
+    this.hydrated = false;
+    this.rebuild();
+  }
+
+  subscribe(listener: TaskStoreListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private rebuild(): void {
+    const tasks: Task[] = [];
+
+    this.baseTasks.forEach(task => {
+      if (!this.optimistic.has(task.id)) {
+        tasks.push(task);
+        return;
+      }
+      const override = this.optimistic.get(task.id);
+      if (override) tasks.push(override);
+    });
+
+    // Optimistic creates have no stored counterpart yet
+    this.optimistic.forEach((task, taskId) => {
+      if (task && !this.baseTasks.some(t => t.id === taskId)) {
+        tasks.push(task);
+      }
+    });
+
+    this.tasks = tasks;
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const taskStore = new TaskStore();